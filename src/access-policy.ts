@@ -0,0 +1,132 @@
+import { readFileSync } from "node:fs";
+import type { CallerIdentity } from "./inbound-auth.js";
+import { asString, isRecord, matchesAnyGlob } from "./utils.js";
+
+/**
+ * One policy rule. A caller matches when its subject/client ID is listed in
+ * `subjects`, or it belongs to one of `groups` (`*` matches everyone). Allow
+ * lists from all matching rules are merged; deny lists always win.
+ */
+export interface AccessPolicyRule {
+  subjects?: string[];
+  groups?: string[];
+  profiles?: string[];
+  tools?: string[];
+  denyProfiles?: string[];
+  denyTools?: string[];
+}
+
+export interface AccessPolicyDocument {
+  rules: AccessPolicyRule[];
+  /** Grants for callers that match no rule. Omitted means deny everything. */
+  default?: Pick<AccessPolicyRule, "profiles" | "tools" | "denyProfiles" | "denyTools">;
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+export const ANONYMOUS_SUBJECT = "anonymous";
+
+function toPatternList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`Access policy field '${field}' must be an array of strings.`);
+  }
+  return value as string[];
+}
+
+function parseRule(value: unknown, label: string): AccessPolicyRule {
+  if (!isRecord(value)) {
+    throw new Error(`Access policy ${label} must be an object.`);
+  }
+  return {
+    subjects: toPatternList(value.subjects, `${label}.subjects`),
+    groups: toPatternList(value.groups, `${label}.groups`),
+    profiles: toPatternList(value.profiles, `${label}.profiles`),
+    tools: toPatternList(value.tools, `${label}.tools`),
+    denyProfiles: toPatternList(value.denyProfiles, `${label}.denyProfiles`),
+    denyTools: toPatternList(value.denyTools, `${label}.denyTools`),
+  };
+}
+
+export function parseAccessPolicy(value: unknown): AccessPolicyDocument {
+  if (!isRecord(value) || !Array.isArray(value.rules)) {
+    throw new Error("Access policy must be an object with a 'rules' array.");
+  }
+  return {
+    rules: value.rules.map((rule, index) => parseRule(rule, `rules[${index}]`)),
+    default: value.default === undefined ? undefined : parseRule(value.default, "default"),
+  };
+}
+
+/**
+ * Maps inbound callers to the Saviynt profiles and tool names they may use.
+ * Tool and profile entries accept `*` wildcards, e.g. `saviynt_get_*`.
+ */
+export class AccessPolicy {
+  constructor(private readonly document: AccessPolicyDocument) {}
+
+  static fromFile(path: string): AccessPolicy {
+    return new AccessPolicy(parseAccessPolicy(JSON.parse(readFileSync(path, "utf8"))));
+  }
+
+  checkTool(caller: CallerIdentity | undefined, toolName: string): AccessDecision {
+    return this.check(caller, "tool", toolName, "tools", "denyTools");
+  }
+
+  checkProfile(caller: CallerIdentity | undefined, profileId: string): AccessDecision {
+    return this.check(caller, "profile", profileId, "profiles", "denyProfiles");
+  }
+
+  private check(
+    caller: CallerIdentity | undefined,
+    kind: "tool" | "profile",
+    value: string,
+    allowField: "tools" | "profiles",
+    denyField: "denyTools" | "denyProfiles"
+  ): AccessDecision {
+    const subject = caller?.subject || ANONYMOUS_SUBJECT;
+    const grants = this.grantsFor(caller);
+
+    if (grants.some((grant) => matchesAnyGlob(grant[denyField], value))) {
+      return { allowed: false, reason: `${kind} '${value}' is denied for caller '${subject}'.` };
+    }
+    if (grants.some((grant) => matchesAnyGlob(grant[allowField], value))) {
+      return { allowed: true };
+    }
+    return { allowed: false, reason: `${kind} '${value}' is not allowed for caller '${subject}'.` };
+  }
+
+  private grantsFor(caller: CallerIdentity | undefined): AccessPolicyRule[] {
+    const names = caller ? [caller.subject, caller.clientId] : [ANONYMOUS_SUBJECT];
+    const groups = caller?.groups || [];
+
+    const matching = this.document.rules.filter(
+      (rule) =>
+        names.some((name) => matchesAnyGlob(rule.subjects, name)) ||
+        groups.some((group) => matchesAnyGlob(rule.groups, group)) ||
+        (rule.groups || []).includes("*")
+    );
+    if (matching.length > 0) {
+      return matching;
+    }
+    return this.document.default ? [this.document.default] : [];
+  }
+}
+
+let environmentPolicy: AccessPolicy | null | undefined;
+
+/** Policy from SAVIYNT_MCP_POLICY_FILE; null (allow everything) when unset. */
+export function getAccessPolicyFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): AccessPolicy | null {
+  if (environmentPolicy === undefined) {
+    const path = asString(env.SAVIYNT_MCP_POLICY_FILE);
+    environmentPolicy = path ? AccessPolicy.fromFile(path) : null;
+  }
+  return environmentPolicy;
+}
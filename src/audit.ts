@@ -0,0 +1,336 @@
+import { appendFile, mkdir, open } from "node:fs/promises";
+import { dirname } from "node:path";
+import { asString, isRecord, positiveIntFromEnv, toErrorMessage, type JsonObject } from "./utils.js";
+
+export type AuditStatus =
+  | "success"
+  | "error"
+  | "denied"
+  | "login_required"
+  | "confirmation_required"
+  | "dry_run";
+
+/** One Saviynt HTTP request made while serving a tool call. */
+export interface AuditApiCall {
+  method: string;
+  endpoint: string;
+  baseUrl: string;
+  profileId?: string;
+  status?: number;
+  /** Resends after timeouts, 429s or 5xx responses. */
+  retries?: number;
+  /** Served from the response cache; nothing was sent to Saviynt. */
+  cached?: boolean;
+}
+
+export interface AuditRecord {
+  timestamp: string;
+  tool: string;
+  class: "read" | "write";
+  status: AuditStatus;
+  durationMs: number;
+  caller: string | null;
+  clientId: string | null;
+  authMethod: string | null;
+  profileId: string | null;
+  baseUrl: string | null;
+  method: string | null;
+  endpoint: string | null;
+  /** Every Saviynt request, in order; `method`/`endpoint` above are the last one. */
+  apiCalls: AuditApiCall[];
+  args: JsonObject;
+  error?: string;
+}
+
+export interface AuditQuery {
+  limit?: number;
+  tool?: string;
+  caller?: string;
+  /** Only records of this `authMethod:subject`; `null` for unauthenticated calls. */
+  owner?: string | null;
+  profileId?: string;
+  status?: AuditStatus;
+  /** Only records at or after this ISO timestamp. */
+  since?: string;
+}
+
+/**
+ * Destination for audit records. Sinks that can read their own history back
+ * implement `readRecent` so the audit tool survives process restarts.
+ */
+export interface AuditSink {
+  write(record: AuditRecord): Promise<void>;
+  readRecent?(limit: number): Promise<AuditRecord[]>;
+}
+
+const REDACTED = "[REDACTED]";
+// Matched against whole key names with case, `-` and `_` ignored, so keys like
+// `bypassCache` or `tokenExpiresAt` stay readable.
+const SENSITIVE_KEY_PATTERN =
+  /^((new|old|current)?pass(word)?|passwd|pwd|(client)?secret|(access|refresh|bearer|id|session|confirmation)?token|authorization|apikey|credentials?|privatekey)$/;
+const MAX_ARG_STRING_CHARS = 500;
+const MAX_ARG_DEPTH = 6;
+const FILE_TAIL_BYTES = 1024 * 1024;
+const DEFAULT_MEMORY_ENTRIES = 500;
+const DEFAULT_QUERY_LIMIT = 50;
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 5000;
+
+function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEY_PATTERN.test(key.toLowerCase().replace(/[-_]/g, ""));
+}
+
+/** Copies tool arguments with secrets masked and long strings clipped. */
+export function redactArgs(value: unknown, depth = 0): unknown {
+  if (depth > MAX_ARG_DEPTH) {
+    return "[...]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArgs(item, depth + 1));
+  }
+  if (isRecord(value)) {
+    const copy: JsonObject = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = isSensitiveKey(key) ? REDACTED : redactArgs(item, depth + 1);
+    }
+    return copy;
+  }
+  if (typeof value === "string" && value.length > MAX_ARG_STRING_CHARS) {
+    return `${value.slice(0, MAX_ARG_STRING_CHARS)}... [truncated]`;
+  }
+  return value;
+}
+
+const AUDIT_STATUSES: ReadonlySet<string> = new Set<AuditStatus>([
+  "success",
+  "error",
+  "denied",
+  "login_required",
+  "confirmation_required",
+  "dry_run",
+]);
+
+function isNullableString(value: unknown): value is string | null {
+  return value === null || typeof value === "string";
+}
+
+function isAuditApiCall(value: unknown): value is AuditApiCall {
+  return (
+    isRecord(value) &&
+    typeof value.method === "string" &&
+    typeof value.endpoint === "string" &&
+    typeof value.baseUrl === "string"
+  );
+}
+
+/** Checks a line read back from a sink, which may be hand-edited or from an older version. */
+function isAuditRecord(value: unknown): value is AuditRecord {
+  return (
+    isRecord(value) &&
+    typeof value.timestamp === "string" &&
+    typeof value.tool === "string" &&
+    (value.class === "read" || value.class === "write") &&
+    typeof value.status === "string" &&
+    AUDIT_STATUSES.has(value.status) &&
+    typeof value.durationMs === "number" &&
+    isNullableString(value.caller) &&
+    isNullableString(value.clientId) &&
+    isNullableString(value.authMethod) &&
+    isNullableString(value.profileId) &&
+    isNullableString(value.baseUrl) &&
+    isNullableString(value.method) &&
+    isNullableString(value.endpoint) &&
+    Array.isArray(value.apiCalls) &&
+    value.apiCalls.every(isAuditApiCall) &&
+    isRecord(value.args) &&
+    (value.error === undefined || typeof value.error === "string")
+  );
+}
+
+function parseRecordLine(line: string): AuditRecord | null {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return isAuditRecord(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function ownerOfRecord(record: AuditRecord): string | null {
+  return record.caller ? `${record.authMethod}:${record.caller}` : null;
+}
+
+/** Writes JSON lines to a stream (stdout, or stderr under stdio transport). */
+export class StreamAuditSink implements AuditSink {
+  constructor(private readonly stream: NodeJS.WritableStream) {}
+
+  async write(record: AuditRecord): Promise<void> {
+    this.stream.write(`${JSON.stringify(record)}\n`);
+  }
+}
+
+/** Appends JSON lines to a local file and reads its tail back for queries. */
+export class FileAuditSink implements AuditSink {
+  constructor(private readonly filePath: string) {}
+
+  async write(record: AuditRecord): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(record)}\n`, { encoding: "utf8", mode: 0o600 });
+  }
+
+  async readRecent(limit: number): Promise<AuditRecord[]> {
+    let handle;
+    try {
+      handle = await open(this.filePath, "r");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    try {
+      const { size } = await handle.stat();
+      const length = Math.min(size, FILE_TAIL_BYTES);
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, size - length);
+      const lines = buffer.toString("utf8").split("\n");
+      if (length < size) {
+        lines.shift();
+      }
+      return lines
+        .map(parseRecordLine)
+        .filter((record): record is AuditRecord => record !== null)
+        .slice(-limit);
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+/** POSTs each record as JSON to an HTTP endpoint (SIEM collector, log shipper). */
+export class WebhookAuditSink implements AuditSink {
+  constructor(
+    private readonly url: string,
+    private readonly bearerToken?: string,
+    /** A hung webhook would otherwise hold every tool result back. */
+    private readonly timeoutMs = DEFAULT_WEBHOOK_TIMEOUT_MS
+  ) {}
+
+  async write(record: AuditRecord): Promise<void> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.bearerToken) {
+      headers.Authorization = `Bearer ${this.bearerToken}`;
+    }
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(record),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Audit webhook returned ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Fans records out to every sink and keeps the most recent ones in memory.
+ * Sink failures are reported on stderr and never fail the tool call.
+ */
+export class AuditLog {
+  private readonly recent: AuditRecord[] = [];
+
+  constructor(
+    private readonly sinks: AuditSink[],
+    private readonly maxMemoryEntries = DEFAULT_MEMORY_ENTRIES
+  ) {}
+
+  async record(record: AuditRecord): Promise<void> {
+    this.recent.push(record);
+    if (this.recent.length > this.maxMemoryEntries) {
+      this.recent.splice(0, this.recent.length - this.maxMemoryEntries);
+    }
+
+    const results = await Promise.allSettled(this.sinks.map((sink) => sink.write(record)));
+    for (const result of results) {
+      if (result.status === "rejected") {
+        console.error(`[saviynt-mcp] audit sink failed: ${toErrorMessage(result.reason)}`);
+      }
+    }
+  }
+
+  /** Newest first. Reads from a persistent sink when one is configured. */
+  async query(query: AuditQuery = {}): Promise<AuditRecord[]> {
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    const persistent = this.sinks.find((sink) => sink.readRecent);
+    const source = persistent
+      ? await persistent.readRecent!(Math.max(limit, this.maxMemoryEntries))
+      : this.recent;
+
+    return source
+      .filter(
+        (record) =>
+          (!query.tool || record.tool === query.tool) &&
+          (!query.caller || record.caller === query.caller) &&
+          (query.owner === undefined || ownerOfRecord(record) === query.owner) &&
+          (!query.profileId || record.profileId === query.profileId) &&
+          (!query.status || record.status === query.status) &&
+          (!query.since || record.timestamp >= query.since)
+      )
+      .reverse()
+      .slice(0, limit);
+  }
+}
+
+let environmentAuditLog: AuditLog | null = null;
+
+/**
+ * Audit log from SAVIYNT_AUDIT_SINKS, a comma-separated list of `stdout`,
+ * `stderr`, `file` and `webhook`. Records are always kept in memory as well.
+ * Shared per process so stateful sessions write to the same log.
+ */
+export function getAuditLogFromEnvironment(env: NodeJS.ProcessEnv = process.env): AuditLog {
+  if (environmentAuditLog) {
+    return environmentAuditLog;
+  }
+
+  const sinks: AuditSink[] = [];
+  const kinds = (asString(env.SAVIYNT_AUDIT_SINKS) || "")
+    .split(",")
+    .map((kind) => kind.trim().toLowerCase())
+    .filter((kind) => kind.length > 0);
+
+  for (const kind of kinds) {
+    if (kind === "stdout") {
+      sinks.push(new StreamAuditSink(process.stdout));
+    } else if (kind === "stderr") {
+      sinks.push(new StreamAuditSink(process.stderr));
+    } else if (kind === "file") {
+      const path = asString(env.SAVIYNT_AUDIT_FILE);
+      if (!path) {
+        throw new Error("SAVIYNT_AUDIT_SINKS=file requires SAVIYNT_AUDIT_FILE.");
+      }
+      sinks.push(new FileAuditSink(path));
+    } else if (kind === "webhook") {
+      const url = asString(env.SAVIYNT_AUDIT_WEBHOOK_URL);
+      if (!url) {
+        throw new Error("SAVIYNT_AUDIT_SINKS=webhook requires SAVIYNT_AUDIT_WEBHOOK_URL.");
+      }
+      sinks.push(
+        new WebhookAuditSink(
+          url,
+          asString(env.SAVIYNT_AUDIT_WEBHOOK_TOKEN),
+          positiveIntFromEnv(env.SAVIYNT_AUDIT_WEBHOOK_TIMEOUT_MS, DEFAULT_WEBHOOK_TIMEOUT_MS)
+        )
+      );
+    } else {
+      throw new Error(`Unsupported audit sink '${kind}'. Use stdout, stderr, file or webhook.`);
+    }
+  }
+
+  environmentAuditLog = new AuditLog(
+    sinks,
+    positiveIntFromEnv(env.SAVIYNT_AUDIT_MEMORY_ENTRIES, DEFAULT_MEMORY_ENTRIES)
+  );
+  return environmentAuditLog;
+}
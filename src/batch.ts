@@ -0,0 +1,80 @@
+import { toErrorMessage } from "./utils.js";
+
+export type BatchStatus = "succeeded" | "failed" | "skipped";
+
+export interface BatchOutcome<T> {
+  item: T;
+  status: BatchStatus;
+  result?: unknown;
+  error?: string;
+}
+
+export interface BatchOptions {
+  /** Items processed at the same time. */
+  concurrency: number;
+  /** No new items are started once more than this many have failed. */
+  maxErrors: number;
+  /** Epoch ms after which no new items are started. */
+  deadline: number;
+  /** Once aborted, no new items are started. */
+  signal?: AbortSignal;
+}
+
+export interface BatchResult<T> {
+  /** One outcome per item, in input order; items never started are `skipped`. */
+  outcomes: BatchOutcome<T>[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  stopReason: "errors" | "deadline" | "cancelled" | null;
+}
+
+/** Runs `worker` over `items` with bounded concurrency; stops early on errors, time or abort. */
+export async function runBatch<T>(
+  items: T[],
+  options: BatchOptions,
+  worker: (item: T) => Promise<unknown>
+): Promise<BatchResult<T>> {
+  const outcomes: BatchOutcome<T>[] = items.map((item) => ({ item, status: "skipped" }));
+  let next = 0;
+  let failed = 0;
+  let stopReason: BatchResult<T>["stopReason"] = null;
+
+  const lane = async (): Promise<void> => {
+    while (next < items.length && stopReason === null) {
+      if (options.signal?.aborted) {
+        stopReason = "cancelled";
+        break;
+      }
+      if (failed > options.maxErrors) {
+        stopReason = "errors";
+        break;
+      }
+      if (Date.now() >= options.deadline) {
+        stopReason = "deadline";
+        break;
+      }
+      const index = next;
+      next += 1;
+      const item = items[index];
+      try {
+        outcomes[index] = { item, status: "succeeded", result: await worker(item) };
+      } catch (error) {
+        failed += 1;
+        outcomes[index] = { item, status: "failed", error: toErrorMessage(error) };
+      }
+    }
+  };
+  const lanes = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+
+  const count = (status: BatchStatus) =>
+    outcomes.filter((outcome) => outcome.status === status).length;
+  return {
+    outcomes,
+    succeeded: count("succeeded"),
+    failed,
+    skipped: count("skipped"),
+    stopReason,
+  };
+}
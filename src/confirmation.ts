@@ -0,0 +1,102 @@
+import { createHash } from "node:crypto";
+import type { Keyring } from "./crypto.js";
+import type { TokenStore } from "./stores.js";
+import { canonicalJson, type JsonObject } from "./utils.js";
+
+const TOKEN_PURPOSE = "confirm-write";
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Digests of tokens already accepted when no token store records them, shared
+ * by every server in the process.
+ */
+const consumedTokens = new Map<string, number>();
+
+/** Everything a confirmation token is bound to; any change invalidates it. */
+export interface PendingWrite {
+  tool: string;
+  method: string;
+  url: string;
+  body?: JsonObject;
+  profileId?: string;
+  baseUrl: string;
+  /** Caller that requested the preview; only it may confirm. */
+  subject?: string;
+}
+
+export interface IssuedConfirmation {
+  token: string;
+  expiresAt: number;
+}
+
+interface TokenClaims {
+  digest: string;
+  expiresAt: number;
+}
+
+function digestOf(write: PendingWrite): string {
+  return createHash("sha256").update(canonicalJson(write), "utf8").digest("base64url");
+}
+
+/**
+ * Issues and checks short-lived tokens for the two-phase write flow: the first
+ * call returns a preview plus a token, and only a repeat of the exact same
+ * request carrying that token is sent. Tokens are HMAC-signed with the
+ * credential keyring and accepted once: the token store records a digest of
+ * each accepted token until it expires, or process memory does without one.
+ */
+export class ConfirmationTokens {
+  constructor(
+    private readonly keyring: Keyring,
+    private readonly ttlMs = DEFAULT_TTL_MS,
+    private readonly tokenStore?: TokenStore
+  ) {}
+
+  issue(write: PendingWrite): IssuedConfirmation {
+    const expiresAt = Date.now() + this.ttlMs;
+    const claims: TokenClaims = { digest: digestOf(write), expiresAt };
+    const payload = Buffer.from(JSON.stringify(claims), "utf8").toString("base64url");
+    return { token: `${payload}.${this.keyring.sign(TOKEN_PURPOSE, payload)}`, expiresAt };
+  }
+
+  /** Throws with a reason when the token does not confirm exactly `write`. */
+  async consume(token: string, write: PendingWrite): Promise<void> {
+    const separator = token.indexOf(".");
+    const payload = token.slice(0, separator);
+    if (separator <= 0 || !this.keyring.verify(TOKEN_PURPOSE, payload, token.slice(separator + 1))) {
+      throw new Error("Confirmation token is invalid. Request a new preview without the token.");
+    }
+
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as TokenClaims;
+    const now = Date.now();
+    if (claims.expiresAt <= now) {
+      throw new Error("Confirmation token has expired. Request a new preview without the token.");
+    }
+    if (claims.digest !== digestOf(write)) {
+      throw new Error(
+        "Confirmation token does not match this request. Repeat the previewed call unchanged."
+      );
+    }
+
+    const tokenDigest = createHash("sha256").update(token, "utf8").digest("base64url");
+    if (!(await this.claim(tokenDigest, claims.expiresAt, now))) {
+      throw new Error("Confirmation token was already used. Request a new preview.");
+    }
+  }
+
+  private async claim(tokenDigest: string, expiresAt: number, now: number): Promise<boolean> {
+    if (this.tokenStore?.claimOnce) {
+      return this.tokenStore.claimOnce(`confirmation:${tokenDigest}`, expiresAt);
+    }
+    for (const [usedDigest, usedExpiresAt] of consumedTokens) {
+      if (usedExpiresAt <= now) {
+        consumedTokens.delete(usedDigest);
+      }
+    }
+    if (consumedTokens.has(tokenDigest)) {
+      return false;
+    }
+    consumedTokens.set(tokenDigest, expiresAt);
+    return true;
+  }
+}
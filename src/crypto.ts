@@ -0,0 +1,191 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "node:crypto";
+
+const SEALED_PREFIX = "v1";
+const IV_BYTES = 12;
+
+/**
+ * Turns a configured secret into a 256-bit AES key. Accepts a base64 or hex
+ * encoded 32-byte key; anything else is treated as a passphrase and hashed.
+ */
+export function deriveKey(secret: string): Buffer {
+  const trimmed = secret.trim();
+  if (/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+    return Buffer.from(trimmed, "hex");
+  }
+
+  const fromBase64 = Buffer.from(trimmed, "base64");
+  if (fromBase64.length === 32 && /^[A-Za-z0-9+/_-]+={0,2}$/.test(trimmed)) {
+    return fromBase64;
+  }
+
+  return createHash("sha256").update(trimmed, "utf8").digest();
+}
+
+export function sealText(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [SEALED_PREFIX, iv, tag, ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+    .join(".");
+}
+
+export function openText(sealed: string, key: Buffer): string {
+  const [prefix, ivText, tagText, ciphertextText] = sealed.split(".");
+  if (prefix !== SEALED_PREFIX || !ivText || !tagText || ciphertextText === undefined) {
+    throw new Error("Unsupported sealed value format.");
+  }
+
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(ivText, "base64url"));
+  decipher.setAuthTag(Buffer.from(tagText, "base64url"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertextText, "base64url")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+export interface KeyringEntry {
+  id: string;
+  key: Buffer;
+}
+
+const KEYRING_PREFIX = "kr1";
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Ordered set of AES-GCM keys. The first key seals new values; every key can
+ * open values it sealed, which lets operators rotate by prepending a new key
+ * and dropping the old one once stored values have been re-sealed.
+ */
+export class Keyring {
+  private readonly entries: KeyringEntry[];
+
+  constructor(entries: KeyringEntry[]) {
+    if (entries.length === 0) {
+      throw new Error("Keyring requires at least one key.");
+    }
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      if (!KEY_ID_PATTERN.test(entry.id)) {
+        throw new Error(`Invalid key id '${entry.id}'. Use letters, digits, '-' or '_'.`);
+      }
+      // Values name their key by id, so a repeated id would open with the wrong key.
+      if (seen.has(entry.id)) {
+        throw new Error(`Duplicate key id '${entry.id}' in the credential keyring.`);
+      }
+      seen.add(entry.id);
+    }
+    this.entries = entries;
+  }
+
+  get primaryKeyId(): string {
+    return this.entries[0].id;
+  }
+
+  seal(plaintext: string): string {
+    const primary = this.entries[0];
+    return `${KEYRING_PREFIX}.${primary.id}.${sealText(plaintext, primary.key)}`;
+  }
+
+  open(sealed: string): string {
+    const keyId = this.keyIdOf(sealed);
+    const entry = this.entries.find((candidate) => candidate.id === keyId);
+    if (!entry) {
+      throw new Error(`No key '${keyId}' in the credential keyring; it may have been rotated out.`);
+    }
+    return openText(sealed.slice(KEYRING_PREFIX.length + keyId.length + 2), entry.key);
+  }
+
+  /** True when the value was sealed with a key other than the current primary. */
+  needsReseal(sealed: string): boolean {
+    return this.keyIdOf(sealed) !== this.primaryKeyId;
+  }
+
+  /** Keyed digest for equality checks, so plaintext never has to be compared. */
+  fingerprint(plaintext: string): string {
+    return this.sign("fingerprint", plaintext);
+  }
+
+  /** `<kid>.<hmac>` over `purpose` and `text` with the primary key. */
+  sign(purpose: string, text: string): string {
+    const primary = this.entries[0];
+    return `${primary.id}.${this.digest(primary.key, purpose, text)}`;
+  }
+
+  /** Checks a `sign` result made with any key still in the ring. */
+  verify(purpose: string, text: string, signature: string): boolean {
+    const separator = signature.indexOf(".");
+    const entry = this.entries.find((candidate) => candidate.id === signature.slice(0, separator));
+    if (separator <= 0 || !entry) {
+      return false;
+    }
+    const expected = Buffer.from(this.digest(entry.key, purpose, text));
+    const actual = Buffer.from(signature.slice(separator + 1));
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private digest(key: Buffer, purpose: string, text: string): string {
+    return createHmac("sha256", key)
+      .update(`${purpose}\0`)
+      .update(text, "utf8")
+      .digest("base64url");
+  }
+
+  private keyIdOf(sealed: string): string {
+    const [prefix, keyId] = sealed.split(".", 2);
+    if (prefix !== KEYRING_PREFIX || !keyId) {
+      throw new Error("Unsupported sealed credential format.");
+    }
+    return keyId;
+  }
+}
+
+/**
+ * Parses `id:secret` pairs separated by commas (first entry is primary). A bare
+ * secret without an id is accepted as a single key with id `default`.
+ */
+export function parseKeyring(value: string): Keyring {
+  const entries = value
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part): KeyringEntry => {
+      const separator = part.indexOf(":");
+      if (separator <= 0) {
+        return { id: "default", key: deriveKey(part) };
+      }
+      return { id: part.slice(0, separator).trim(), key: deriveKey(part.slice(separator + 1)) };
+    });
+  return new Keyring(entries);
+}
+
+/** Process-local keyring for deployments that never persist credentials. */
+export function createEphemeralKeyring(): Keyring {
+  return new Keyring([{ id: "ephemeral", key: randomBytes(32) }]);
+}
+
+let environmentKeyring: Keyring | null = null;
+
+/**
+ * Keyring from SAVIYNT_CREDENTIAL_KEYS, or a per-process random key when unset.
+ * Returns `persistent: false` in the latter case so callers can refuse to write
+ * credentials anywhere that outlives the process.
+ */
+export function getCredentialKeyringFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): { keyring: Keyring; persistent: boolean } {
+  const configured = env.SAVIYNT_CREDENTIAL_KEYS?.trim();
+  if (configured) {
+    return { keyring: parseKeyring(configured), persistent: true };
+  }
+  environmentKeyring = environmentKeyring || createEphemeralKeyring();
+  return { keyring: environmentKeyring, persistent: false };
+}
@@ -0,0 +1,112 @@
+import { parsePath, readPath } from "./result-shaping.js";
+import { isRecord, type JsonObject } from "./utils.js";
+
+export type ExportFormat = "csv" | "ndjson";
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+};
+
+/** One output column: its header and the JSON path read from each record. */
+export interface ExportColumn {
+  name: string;
+  path: string;
+}
+
+/** Nested objects become dotted keys; arrays are kept as JSON text. */
+export function flattenRecord(record: JsonObject, prefix = ""): JsonObject {
+  const flat: JsonObject = {};
+  for (const [key, value] of Object.entries(record)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isRecord(value)) {
+      Object.assign(flat, flattenRecord(value, name));
+    } else {
+      flat[name] = Array.isArray(value) ? JSON.stringify(value) : value;
+    }
+  }
+  return flat;
+}
+
+/** Columns for every flattened key, in order of first appearance. */
+export function inferColumns(records: JsonObject[]): ExportColumn[] {
+  const names = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(flattenRecord(record))) {
+      names.add(key);
+    }
+  }
+  return Array.from(names, (name) => ({ name, path: name }));
+}
+
+/**
+ * Reads a column from a record. Inferred columns name flattened keys, which
+ * may themselves contain dots, so the flattened record is tried first.
+ */
+function readColumn(record: JsonObject, flat: JsonObject, column: ExportColumn): unknown {
+  if (Object.prototype.hasOwnProperty.call(flat, column.path)) {
+    return flat[column.path];
+  }
+  const value = readPath(record, parsePath(column.path));
+  return isRecord(value) || Array.isArray(value) ? JSON.stringify(value) : value;
+}
+
+/** Maps records to flat rows with exactly `columns`; missing values are null. */
+export function projectRecords(records: JsonObject[], columns: ExportColumn[]): JsonObject[] {
+  return records.map((record) => {
+    const flat = flattenRecord(record);
+    const row: JsonObject = {};
+    for (const column of columns) {
+      row[column.name] = readColumn(record, flat, column) ?? null;
+    }
+    return row;
+  });
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = String(value);
+  // Spreadsheets run cells starting with these characters as formulas.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text) && Number.isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export interface RenderedExport {
+  text: string;
+  /** Rows in `text`; fewer than given when `maxChars` was reached. */
+  rowCount: number;
+}
+
+/**
+ * Renders rows as CSV (with a header line and CRLF line ends) or NDJSON.
+ * Rows that would push the file past `maxChars` are left out.
+ */
+export function renderExport(
+  rows: JsonObject[],
+  columns: ExportColumn[],
+  format: ExportFormat,
+  maxChars: number
+): RenderedExport {
+  const lineEnd = format === "csv" ? "\r\n" : "\n";
+  const lines =
+    format === "csv" ? [columns.map((column) => csvCell(column.name)).join(",") + lineEnd] : [];
+  let length = lines.join("").length;
+  let rowCount = 0;
+  for (const row of rows) {
+    const line =
+      (format === "csv"
+        ? columns.map((column) => csvCell(row[column.name])).join(",")
+        : JSON.stringify(row)) + lineEnd;
+    if (length + line.length > maxChars) {
+      break;
+    }
+    lines.push(line);
+    length += line.length;
+    rowCount += 1;
+  }
+  return { text: lines.join(""), rowCount };
+}
@@ -0,0 +1,187 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  callerFromAuthInfo,
+  getInboundAuthFromEnvironment,
+  InboundAuthError,
+  isProtectedResourceMetadataPath,
+} from "./inbound-auth.js";
+import { createSaviyntMcpServer } from "./saviynt-mcp-server.js";
+import { SessionManager } from "./sessions.js";
+
+interface VercelLikeRequest extends IncomingMessage {
+  body?: unknown;
+  auth?: AuthInfo;
+}
+
+function sendJson(res: ServerResponse, statusCode: number, payload: unknown): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.statusCode = statusCode;
+  res.setHeader("content-type", "application/json");
+  res.end(JSON.stringify(payload));
+}
+
+type SessionMode = "stateless" | "stateful";
+
+const sessionMode: SessionMode =
+  process.env.SAVIYNT_SESSION_MODE?.toLowerCase() === "stateful" ? "stateful" : "stateless";
+
+let sessionManager: SessionManager | null = null;
+
+function getSessionManager(): SessionManager {
+  if (!sessionManager) {
+    const idleSeconds = Number.parseInt(process.env.SAVIYNT_SESSION_IDLE_SECONDS || "", 10);
+    const maxSessions = Number.parseInt(process.env.SAVIYNT_MAX_SESSIONS || "", 10);
+    sessionManager = new SessionManager({
+      createServer: () => createSaviyntMcpServer({ sessionScoped: true }),
+      idleTimeoutMs: idleSeconds > 0 ? idleSeconds * 1000 : undefined,
+      maxSessions: maxSessions > 0 ? maxSessions : undefined,
+      resolveOwner: (req) => {
+        const caller = callerFromAuthInfo((req as VercelLikeRequest).auth);
+        return caller ? `${caller.authMethod}:${caller.subject}` : undefined;
+      },
+    });
+  }
+  return sessionManager;
+}
+
+/** Closes all stateful sessions; used by long-running hosts on shutdown. */
+export async function closeHttpSessions(): Promise<void> {
+  await sessionManager?.closeAll();
+}
+
+function getRequestPath(req: IncomingMessage): string {
+  try {
+    return new URL(req.url || "/", "http://localhost").pathname;
+  } catch {
+    return req.url || "/";
+  }
+}
+
+export default async function handler(req: VercelLikeRequest, res: ServerResponse): Promise<void> {
+  const path = getRequestPath(req);
+  if (path === "/" || path === "") {
+    sendJson(res, 200, {
+      ok: true,
+      name: "saviynt-api-mcp",
+      endpoints: {
+        mcp: "/mcp",
+        health: "/health",
+        compatibleMcp: "/api/mcp",
+        compatibleHealth: "/api/health",
+      },
+    });
+    return;
+  }
+
+  if (
+    path === "/health" ||
+    path === "/health/" ||
+    path === "/api/health" ||
+    path === "/api/health/"
+  ) {
+    sendJson(res, 200, {
+      ok: true,
+      name: "saviynt-api-mcp",
+      transport: "streamable-http",
+      mode: sessionMode,
+      ...(sessionMode === "stateful" ? { activeSessions: sessionManager?.size ?? 0 } : {}),
+    });
+    return;
+  }
+
+  const inboundAuth = getInboundAuthFromEnvironment();
+  if (isProtectedResourceMetadataPath(path)) {
+    if (!inboundAuth.oauthEnabled) {
+      sendJson(res, 404, { ok: false, error: "OAuth protected resource mode is not configured." });
+      return;
+    }
+    sendJson(res, 200, inboundAuth.protectedResourceMetadata(req));
+    return;
+  }
+
+  if (inboundAuth.enabled) {
+    try {
+      req.auth = await inboundAuth.authenticate(req);
+    } catch (error) {
+      if (!(error instanceof InboundAuthError)) {
+        throw error;
+      }
+      res.setHeader("WWW-Authenticate", inboundAuth.challenge(req, error));
+      sendJson(res, error.status, {
+        jsonrpc: "2.0",
+        error: {
+          code: -32001,
+          message: error.message,
+        },
+        id: null,
+      });
+      return;
+    }
+  }
+
+  if (sessionMode === "stateful") {
+    try {
+      await getSessionManager().handleRequest(req, res, req.body);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Internal server error";
+      sendJson(res, 500, {
+        jsonrpc: "2.0",
+        error: {
+          code: -32603,
+          message,
+        },
+        id: null,
+      });
+    }
+    return;
+  }
+
+  const server = createSaviyntMcpServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: undefined,
+  });
+
+  let cleanedUp = false;
+  const cleanup = async (): Promise<void> => {
+    if (cleanedUp) {
+      return;
+    }
+    cleanedUp = true;
+
+    try {
+      await transport.close();
+    } catch {
+      // Ignore close errors during cleanup.
+    }
+
+    try {
+      await server.close();
+    } catch {
+      // Ignore close errors during cleanup.
+    }
+  };
+
+  res.on("close", () => {
+    void cleanup();
+  });
+
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    sendJson(res, 500, {
+      jsonrpc: "2.0",
+      error: {
+        code: -32603,
+        message,
+      },
+      id: null,
+    });
+    await cleanup();
+  }
+}
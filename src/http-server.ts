@@ -0,0 +1,34 @@
+#!/usr/bin/env node
+import { createServer } from "node:http";
+import handler, { closeHttpSessions } from "./http-handler.js";
+import { getInboundAuthFromEnvironment } from "./inbound-auth.js";
+import { positiveIntFromEnv } from "./utils.js";
+
+// Standalone host for the same handler Vercel runs, for self-hosted deployments
+// and local development without `vercel dev`.
+const port = positiveIntFromEnv(process.env.PORT, 3000);
+const host = process.env.HOST || "127.0.0.1";
+
+// Load inbound auth now so a broken config stops startup instead of every request.
+getInboundAuthFromEnvironment();
+
+const server = createServer((req, res) => {
+  handler(req, res).catch((error) => {
+    console.error("Unhandled MCP request error:", error);
+    if (!res.headersSent) {
+      res.statusCode = 500;
+      res.end();
+    }
+  });
+});
+
+const shutdown = (): void => {
+  server.close();
+  void closeHttpSessions().finally(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+server.listen(port, host, () => {
+  console.error(`saviynt-api-mcp listening on http://${host}:${port}/mcp`);
+});
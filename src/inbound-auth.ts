@@ -0,0 +1,490 @@
+import {
+  constants as cryptoConstants,
+  createHash,
+  createPublicKey,
+  timingSafeEqual,
+  verify as verifySignature,
+  type JsonWebKey,
+  type KeyObject,
+} from "node:crypto";
+import { readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import type { IncomingMessage } from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { asString, isRecord, toErrorMessage, type JsonObject } from "./utils.js";
+
+export type AuthMethod = "api-key" | "oauth";
+
+/** Authenticated caller of the MCP endpoint, as seen by tool handlers. */
+export interface CallerIdentity {
+  subject: string;
+  clientId: string;
+  authMethod: AuthMethod;
+  scopes: string[];
+  groups: string[];
+}
+
+export interface ApiKeyConfig {
+  id: string;
+  /** Raw key. Prefer `sha256` so the config never holds usable secrets. */
+  key?: string;
+  /** Hex SHA-256 of the key. */
+  sha256?: string;
+  scopes?: string[];
+  groups?: string[];
+}
+
+export interface OAuthResourceConfig {
+  /** Canonical URL of this MCP endpoint, e.g. https://host/mcp. */
+  resource?: string;
+  issuer?: string;
+  audience?: string;
+  jwksUrl?: string;
+  jwksFile?: string;
+  authorizationServers?: string[];
+  scopesSupported?: string[];
+  groupsClaim?: string;
+}
+
+export interface InboundAuthConfig {
+  apiKeys: ApiKeyConfig[];
+  oauth?: OAuthResourceConfig;
+  requiredScopes: string[];
+}
+
+export class InboundAuthError extends Error {
+  constructor(
+    readonly status: 401 | 403,
+    readonly code: "invalid_request" | "invalid_token" | "insufficient_scope",
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export interface InboundAuth {
+  readonly enabled: boolean;
+  readonly oauthEnabled: boolean;
+  /** Resolves the caller or throws InboundAuthError. */
+  authenticate(req: IncomingMessage): Promise<AuthInfo>;
+  protectedResourceMetadata(req: IncomingMessage): JsonObject;
+  /** Value for the `WWW-Authenticate` header on a failed request. */
+  challenge(req: IncomingMessage, error: InboundAuthError): string;
+}
+
+const PROTECTED_RESOURCE_PATH = "/.well-known/oauth-protected-resource";
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+const JWKS_MIN_REFRESH_MS = 30 * 1000;
+const JWKS_FAILURE_RETRY_MS = 5 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+const SUPPORTED_JWT_ALGORITHMS = new Set([
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+  "EdDSA",
+]);
+
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function asStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === "string");
+  }
+  if (typeof value === "string") {
+    return splitList(value);
+  }
+  return [];
+}
+
+function sha256Hex(value: string): string {
+  return createHash("sha256").update(value, "utf8").digest("hex");
+}
+
+function safeEqualHex(left: string, right: string): boolean {
+  const leftBuffer = Buffer.from(left, "hex");
+  const rightBuffer = Buffer.from(right, "hex");
+  return leftBuffer.length === rightBuffer.length && timingSafeEqual(leftBuffer, rightBuffer);
+}
+
+function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return asString(Array.isArray(value) ? value[0] : value);
+}
+
+function getBearerToken(req: IncomingMessage): string | undefined {
+  const authorization = getHeader(req, "authorization");
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? asString(match[1]) : undefined;
+}
+
+function getRequestOrigin(req: IncomingMessage): string {
+  const proto = getHeader(req, "x-forwarded-proto")?.split(",")[0].trim() || "http";
+  const host = getHeader(req, "x-forwarded-host") || getHeader(req, "host") || "localhost";
+  return `${proto}://${host}`;
+}
+
+function parseApiKeys(value: unknown): ApiKeyConfig[] {
+  if (!Array.isArray(value)) {
+    throw new Error("API key config must be a JSON array.");
+  }
+  return value.map((entry, index): ApiKeyConfig => {
+    if (!isRecord(entry)) {
+      throw new Error(`API key entry #${index + 1} must be an object.`);
+    }
+    const id = asString(entry.id) || `key-${index + 1}`;
+    const key = asString(entry.key);
+    const sha256 = asString(entry.sha256)?.toLowerCase();
+    if (!key && !sha256) {
+      throw new Error(`API key '${id}' needs either 'key' or 'sha256'.`);
+    }
+    return {
+      id,
+      key,
+      sha256,
+      scopes: asStringArray(entry.scopes),
+      groups: asStringArray(entry.groups),
+    };
+  });
+}
+
+function decodeJwtPart(part: string): JsonObject {
+  const parsed: unknown = JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+  if (!isRecord(parsed)) {
+    throw new Error("Malformed JWT.");
+  }
+  return parsed;
+}
+
+function verifyJwtSignature(
+  algorithm: string,
+  key: KeyObject,
+  data: Buffer,
+  signature: Buffer
+): boolean {
+  const bits = algorithm.slice(2);
+  const digest = algorithm === "EdDSA" ? null : `sha${bits}`;
+
+  if (algorithm.startsWith("PS")) {
+    return verifySignature(
+      digest,
+      data,
+      {
+        key,
+        padding: cryptoConstants.RSA_PKCS1_PSS_PADDING,
+        saltLength: cryptoConstants.RSA_PSS_SALTLEN_DIGEST,
+      },
+      signature
+    );
+  }
+  if (algorithm.startsWith("ES")) {
+    return verifySignature(digest, data, { key, dsaEncoding: "ieee-p1363" }, signature);
+  }
+  return verifySignature(digest, data, key, signature);
+}
+
+class JwksCache {
+  private keys: JsonWebKey[] = [];
+  private loadedAt = 0;
+  private failure: Error | null = null;
+  private failedAt = 0;
+
+  constructor(private readonly config: OAuthResourceConfig) {}
+
+  async findKey(kid: string | undefined): Promise<KeyObject> {
+    let jwk = this.match(kid);
+    const age = Date.now() - this.loadedAt;
+    // Unknown kids trigger a refetch (key rollover), but never more than once
+    // per JWKS_MIN_REFRESH_MS so forged tokens cannot hammer the JWKS endpoint.
+    if ((!jwk && age > JWKS_MIN_REFRESH_MS) || age > JWKS_CACHE_MS) {
+      // A failed fetch leaves loadedAt alone, so hold off before the next try.
+      if (this.failure && Date.now() - this.failedAt < JWKS_FAILURE_RETRY_MS) {
+        throw this.failure;
+      }
+      try {
+        await this.reload();
+        this.failure = null;
+      } catch (error) {
+        this.failure = error instanceof Error ? error : new Error(String(error));
+        this.failedAt = Date.now();
+        throw this.failure;
+      }
+      jwk = this.match(kid);
+    }
+    if (!jwk) {
+      throw new Error(kid ? `No JWKS key with kid '${kid}'.` : "JWKS has no usable key.");
+    }
+    return createPublicKey({ key: jwk, format: "jwk" });
+  }
+
+  private match(kid: string | undefined): JsonWebKey | undefined {
+    const candidates = this.keys.filter((key) => !key.use || key.use === "sig");
+    if (kid) {
+      return candidates.find((key) => key.kid === kid);
+    }
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  private async reload(): Promise<void> {
+    let document: unknown;
+    if (this.config.jwksFile) {
+      document = JSON.parse(await readFile(this.config.jwksFile, "utf8"));
+    } else if (this.config.jwksUrl) {
+      const response = await fetch(this.config.jwksUrl, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) {
+        throw new Error(`JWKS fetch failed: ${response.status} ${response.statusText}`);
+      }
+      document = await response.json();
+    }
+
+    this.keys =
+      isRecord(document) && Array.isArray(document.keys)
+        ? (document.keys.filter(isRecord) as JsonWebKey[])
+        : [];
+    this.loadedAt = Date.now();
+  }
+}
+
+export function callerFromAuthInfo(authInfo: AuthInfo | undefined): CallerIdentity | undefined {
+  if (!authInfo) {
+    return undefined;
+  }
+  const extra = authInfo.extra || {};
+  return {
+    subject: asString(extra.subject) || authInfo.clientId,
+    clientId: authInfo.clientId,
+    authMethod: extra.authMethod === "oauth" ? "oauth" : "api-key",
+    scopes: [...authInfo.scopes],
+    groups: asStringArray(extra.groups),
+  };
+}
+
+export function isProtectedResourceMetadataPath(path: string): boolean {
+  return path === PROTECTED_RESOURCE_PATH || path.startsWith(`${PROTECTED_RESOURCE_PATH}/`);
+}
+
+export function createInboundAuth(config: InboundAuthConfig): InboundAuth {
+  const oauth = config.oauth;
+  // The audience must never come from request headers, which the caller controls.
+  const expectedAudience = oauth?.audience || oauth?.resource;
+  if (oauth && !expectedAudience) {
+    throw new Error(
+      "OAuth needs SAVIYNT_MCP_OAUTH_AUDIENCE or SAVIYNT_MCP_RESOURCE_URL to check the JWT " +
+        "audience."
+    );
+  }
+  const jwks = oauth ? new JwksCache(oauth) : null;
+  const apiKeyDigests = config.apiKeys.map((entry) => ({
+    entry,
+    digest: entry.sha256 || sha256Hex(entry.key || ""),
+  }));
+
+  const resourceUrl = (req: IncomingMessage): string =>
+    oauth?.resource || `${getRequestOrigin(req)}/mcp`;
+
+  const metadataUrl = (req: IncomingMessage): string => {
+    const resource = new URL(resourceUrl(req));
+    const suffix = resource.pathname === "/" ? "" : resource.pathname.replace(/\/+$/, "");
+    return `${resource.origin}${PROTECTED_RESOURCE_PATH}${suffix}`;
+  };
+
+  const authenticateApiKey = (token: string): AuthInfo | null => {
+    const digest = sha256Hex(token);
+    const match = apiKeyDigests.find((candidate) => safeEqualHex(candidate.digest, digest));
+    if (!match) {
+      return null;
+    }
+    return {
+      token,
+      clientId: match.entry.id,
+      scopes: match.entry.scopes || [],
+      extra: {
+        subject: match.entry.id,
+        authMethod: "api-key",
+        groups: match.entry.groups || [],
+      },
+    };
+  };
+
+  const authenticateJwt = async (token: string, req: IncomingMessage): Promise<AuthInfo> => {
+    if (!oauth || !jwks) {
+      throw new Error("OAuth is not configured.");
+    }
+
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      throw new Error("Token is not a JWT.");
+    }
+    const header = decodeJwtPart(parts[0]);
+    const claims = decodeJwtPart(parts[1]);
+    const algorithm = asString(header.alg) || "";
+    if (!SUPPORTED_JWT_ALGORITHMS.has(algorithm)) {
+      throw new Error(`Unsupported JWT algorithm '${algorithm}'.`);
+    }
+
+    const key = await jwks.findKey(asString(header.kid));
+    const signedData = Buffer.from(`${parts[0]}.${parts[1]}`, "utf8");
+    if (!verifyJwtSignature(algorithm, key, signedData, Buffer.from(parts[2], "base64url"))) {
+      throw new Error("Invalid JWT signature.");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = typeof claims.exp === "number" ? claims.exp : undefined;
+    if (!expiresAt || expiresAt + CLOCK_SKEW_SECONDS < now) {
+      throw new Error("JWT is expired or has no 'exp' claim.");
+    }
+    if (typeof claims.nbf === "number" && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+      throw new Error("JWT is not valid yet.");
+    }
+    if (oauth.issuer && claims.iss !== oauth.issuer) {
+      throw new Error("JWT issuer does not match.");
+    }
+
+    if (!asStringArray(claims.aud).includes(expectedAudience)) {
+      throw new Error(`JWT audience does not include '${expectedAudience}'.`);
+    }
+
+    const subject = asString(claims.sub);
+    if (!subject) {
+      throw new Error("JWT has no 'sub' claim.");
+    }
+
+    return {
+      token,
+      clientId: asString(claims.client_id) || asString(claims.azp) || subject,
+      scopes: asStringArray(claims.scope ?? claims.scp),
+      expiresAt,
+      resource: new URL(resourceUrl(req)),
+      extra: {
+        subject,
+        authMethod: "oauth",
+        groups: asStringArray(claims[oauth.groupsClaim || "groups"]),
+        issuer: asString(claims.iss),
+      },
+    };
+  };
+
+  return {
+    enabled: config.apiKeys.length > 0 || Boolean(oauth),
+    oauthEnabled: Boolean(oauth),
+
+    async authenticate(req) {
+      const token = getBearerToken(req) || getHeader(req, "x-api-key");
+      if (!token) {
+        throw new InboundAuthError(401, "invalid_request", "Missing bearer token or API key.");
+      }
+
+      let authInfo = authenticateApiKey(token);
+      if (!authInfo && oauth && token.split(".").length === 3) {
+        try {
+          authInfo = await authenticateJwt(token, req);
+        } catch (error) {
+          throw new InboundAuthError(401, "invalid_token", toErrorMessage(error));
+        }
+      }
+      if (!authInfo) {
+        throw new InboundAuthError(401, "invalid_token", "Unknown API key.");
+      }
+
+      const missingScopes = config.requiredScopes.filter(
+        (scope) => !authInfo.scopes.includes(scope)
+      );
+      if (missingScopes.length > 0) {
+        throw new InboundAuthError(
+          403,
+          "insufficient_scope",
+          `Missing required scope(s): ${missingScopes.join(" ")}`
+        );
+      }
+
+      return authInfo;
+    },
+
+    protectedResourceMetadata(req) {
+      return {
+        resource: resourceUrl(req),
+        authorization_servers: oauth?.authorizationServers?.length
+          ? oauth.authorizationServers
+          : oauth?.issuer
+            ? [oauth.issuer]
+            : [],
+        scopes_supported: oauth?.scopesSupported?.length
+          ? oauth.scopesSupported
+          : config.requiredScopes,
+        bearer_methods_supported: ["header"],
+        resource_name: "saviynt-api-mcp",
+      };
+    },
+
+    challenge(req, error) {
+      const parts = [
+        `error="${error.code}"`,
+        `error_description="${error.message.replace(/"/g, "'")}"`,
+      ];
+      if (oauth) {
+        parts.push(`resource_metadata="${metadataUrl(req)}"`);
+      }
+      if (error.code === "insufficient_scope" && config.requiredScopes.length > 0) {
+        parts.push(`scope="${config.requiredScopes.join(" ")}"`);
+      }
+      return `Bearer ${parts.join(", ")}`;
+    },
+  };
+}
+
+let environmentAuth: InboundAuth | null = null;
+
+/**
+ * Inbound auth from environment:
+ * - SAVIYNT_MCP_API_KEYS (JSON array) or SAVIYNT_MCP_API_KEYS_FILE
+ * - SAVIYNT_MCP_OAUTH_JWKS_URL or SAVIYNT_MCP_OAUTH_JWKS_FILE enables OAuth,
+ *   with SAVIYNT_MCP_OAUTH_ISSUER, SAVIYNT_MCP_OAUTH_AUDIENCE,
+ *   SAVIYNT_MCP_RESOURCE_URL, SAVIYNT_MCP_OAUTH_AUTHORIZATION_SERVERS,
+ *   SAVIYNT_MCP_OAUTH_SCOPES and SAVIYNT_MCP_OAUTH_GROUPS_CLAIM
+ * - SAVIYNT_MCP_REQUIRED_SCOPES for every request
+ */
+export function getInboundAuthFromEnvironment(env: NodeJS.ProcessEnv = process.env): InboundAuth {
+  if (environmentAuth) {
+    return environmentAuth;
+  }
+
+  const apiKeysFile = asString(env.SAVIYNT_MCP_API_KEYS_FILE);
+  const apiKeysRaw = apiKeysFile ? readFileSync(apiKeysFile, "utf8") : asString(env.SAVIYNT_MCP_API_KEYS);
+  const apiKeys = apiKeysRaw ? parseApiKeys(JSON.parse(apiKeysRaw)) : [];
+
+  const jwksUrl = asString(env.SAVIYNT_MCP_OAUTH_JWKS_URL);
+  const jwksFile = asString(env.SAVIYNT_MCP_OAUTH_JWKS_FILE);
+  const oauth: OAuthResourceConfig | undefined =
+    jwksUrl || jwksFile
+      ? {
+          resource: asString(env.SAVIYNT_MCP_RESOURCE_URL),
+          issuer: asString(env.SAVIYNT_MCP_OAUTH_ISSUER),
+          audience: asString(env.SAVIYNT_MCP_OAUTH_AUDIENCE),
+          jwksUrl,
+          jwksFile,
+          authorizationServers: splitList(env.SAVIYNT_MCP_OAUTH_AUTHORIZATION_SERVERS),
+          scopesSupported: splitList(env.SAVIYNT_MCP_OAUTH_SCOPES),
+          groupsClaim: asString(env.SAVIYNT_MCP_OAUTH_GROUPS_CLAIM),
+        }
+      : undefined;
+
+  environmentAuth = createInboundAuth({
+    apiKeys,
+    oauth,
+    requiredScopes: splitList(env.SAVIYNT_MCP_REQUIRED_SCOPES),
+  });
+  return environmentAuth;
+}
@@ -0,0 +1,335 @@
+import * as z from "zod/v4";
+import { extractPage } from "./pagination.js";
+import { isRecord, type JsonObject } from "./utils.js";
+
+const field = z.string().nullable();
+
+export const userSchema = z.object({
+  id: field,
+  username: field,
+  displayName: field,
+  firstName: field,
+  lastName: field,
+  email: field,
+  status: field.describe("active, inactive, or the tenant's own status text"),
+  department: field,
+  manager: field,
+  title: field,
+});
+
+export const accountSchema = z.object({
+  id: field,
+  name: field,
+  endpoint: field,
+  securitySystem: field,
+  status: field,
+  username: field.describe("Owning user"),
+});
+
+export const entitlementSchema = z.object({
+  id: field,
+  value: field,
+  type: field,
+  endpoint: field,
+  description: field,
+  status: field,
+});
+
+export const roleSchema = z.object({
+  id: field,
+  name: field,
+  type: field,
+  description: field,
+  status: field,
+  owner: field,
+});
+
+export const accessRequestSchema = z.object({
+  id: field,
+  key: field,
+  type: field,
+  status: field,
+  requestor: field,
+  beneficiary: field,
+  submittedAt: field,
+  dueDate: field,
+});
+
+export const endpointSchema = z.object({
+  id: field,
+  name: field,
+  displayName: field,
+  securitySystem: field,
+  description: field,
+  status: field,
+});
+
+export const campaignSchema = z.object({
+  id: field,
+  name: field,
+  type: field,
+  status: field,
+  owner: field,
+  startDate: field,
+  endDate: field,
+});
+
+/** Output shape of list tools; the paging fields are set by paginated tools only. */
+export function listOutputShape(item: z.ZodTypeAny): Record<string, z.ZodTypeAny> {
+  return {
+    success: z.boolean(),
+    count: z.number().int().describe("Rows returned by Saviynt for this call"),
+    totalCount: z.number().int().nullable().optional(),
+    offset: z.number().int().optional(),
+    pagesFetched: z.number().int().optional(),
+    hasMore: z.boolean().optional(),
+    nextCursor: z.string().nullable().optional(),
+    items: z.array(item),
+    truncated: z
+      .boolean()
+      .optional()
+      .describe("True when items were dropped to fit the structured content size limit"),
+  };
+}
+
+export const userOutputShape = {
+  success: z.boolean(),
+  user: userSchema.nullable(),
+};
+
+type Normalizer = (raw: JsonObject) => JsonObject;
+
+/** Lowercase with separators removed, so `user_name`, `userName` and `USERNAME` compare equal. */
+function foldKey(key: string): string {
+  return key.toLowerCase().replace(/[\s_-]/g, "");
+}
+
+function foldKeys(raw: JsonObject): Map<string, unknown> {
+  return new Map(Object.entries(raw).map(([key, value]) => [foldKey(key), value]));
+}
+
+/** First non-empty scalar among `keys`, as a string. */
+export function pick(raw: JsonObject, ...keys: string[]): string | null {
+  const folded = foldKeys(raw);
+  for (const key of keys) {
+    const value = folded.get(foldKey(key));
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+    if (typeof value === "number" || typeof value === "boolean") {
+      return String(value);
+    }
+  }
+  return null;
+}
+
+/** Maps Saviynt's numeric status codes to words; other values are lowercased. */
+function normalizeStatus(value: string | null): string | null {
+  if (value === null) {
+    return null;
+  }
+  if (value === "1" || value === "true") {
+    return "active";
+  }
+  if (value === "0" || value === "false") {
+    return "inactive";
+  }
+  return value.toLowerCase();
+}
+
+export const normalizeUser: Normalizer = (raw) => {
+  const firstName = pick(raw, "firstname", "givenName");
+  const lastName = pick(raw, "lastname", "surname", "sn");
+  return {
+    id: pick(raw, "userkey", "userid", "id", "systemUserName"),
+    username: pick(raw, "username", "systemUserName", "login"),
+    displayName:
+      pick(raw, "displayname", "preferedFirstName", "name") ||
+      ([firstName, lastName].filter(Boolean).join(" ") || null),
+    firstName,
+    lastName,
+    email: pick(raw, "email", "mail", "emailAddress"),
+    status: normalizeStatus(pick(raw, "statuskey", "status", "enabled")),
+    department: pick(raw, "departmentname", "department", "departmentNumber"),
+    manager: pick(raw, "manager", "managerUsername", "managerid"),
+    title: pick(raw, "title", "jobtitle", "jobcode"),
+  };
+};
+
+export const normalizeAccount: Normalizer = (raw) => ({
+  id: pick(raw, "accountkey", "accountid", "id"),
+  name: pick(raw, "name", "accountname", "accountName"),
+  endpoint: pick(raw, "endpoint", "endpointname", "application", "applicationName"),
+  securitySystem: pick(raw, "securitysystem", "securitySystemName"),
+  status: normalizeStatus(pick(raw, "status", "accountstatus", "statuskey")),
+  username: pick(raw, "username", "userName", "owner"),
+});
+
+export const normalizeEntitlement: Normalizer = (raw) => ({
+  id: pick(raw, "entitlementValueKey", "entitlement_valuekey", "entitlementid", "id"),
+  value: pick(raw, "entitlement_value", "entitlementValue", "entitlementName", "name", "value"),
+  type: pick(raw, "entitlementtype", "entitlementTypeName", "type"),
+  endpoint: pick(raw, "endpoint", "endpointname", "application", "applicationName"),
+  description: pick(raw, "description", "entitlement_description", "displayname"),
+  status: normalizeStatus(pick(raw, "status", "entitlementStatus", "statuskey")),
+});
+
+export const normalizeRole: Normalizer = (raw) => ({
+  id: pick(raw, "rolekey", "roleid", "id"),
+  name: pick(raw, "role_name", "rolename", "name"),
+  type: pick(raw, "roletype", "roleType", "type"),
+  description: pick(raw, "description", "displayname"),
+  status: normalizeStatus(pick(raw, "status", "statuskey")),
+  owner: pick(raw, "owner", "roleowner", "ownerUsername"),
+});
+
+export const normalizeAccessRequest: Normalizer = (raw) => ({
+  id: pick(raw, "requestid", "requestId", "id"),
+  key: pick(raw, "requestkey", "requestKey"),
+  type: pick(raw, "requesttype", "requestType", "type"),
+  status: normalizeStatus(pick(raw, "requeststatus", "status")),
+  requestor: pick(raw, "requestor", "requestedBy", "requester"),
+  beneficiary: pick(raw, "requestedfor", "beneficiary", "username"),
+  submittedAt: pick(raw, "requestsubmittedon", "requestdate", "createdate", "submittedOn"),
+  dueDate: pick(raw, "duedate", "dueDate"),
+});
+
+export const normalizeEndpoint: Normalizer = (raw) => ({
+  id: pick(raw, "endpointkey", "endpointid", "id"),
+  name: pick(raw, "endpointname", "endpoint", "name"),
+  displayName: pick(raw, "displayName", "display_name"),
+  securitySystem: pick(raw, "securitysystem", "securitySystemName"),
+  description: pick(raw, "description"),
+  status: normalizeStatus(pick(raw, "status", "statuskey")),
+});
+
+export const normalizeCampaign: Normalizer = (raw) => ({
+  id: pick(raw, "campaignkey", "campaignid", "id"),
+  name: pick(raw, "campaignname", "campaign_name", "name"),
+  type: pick(raw, "campaigntype", "type"),
+  status: normalizeStatus(pick(raw, "status", "campaignstatus")),
+  owner: pick(raw, "owner", "campaignowner", "certifier"),
+  startDate: pick(raw, "startdate", "launchdate", "startDate"),
+  endDate: pick(raw, "enddate", "duedate", "endDate"),
+});
+
+/** Normalizes each record of a list payload; non-object rows are skipped. */
+export function normalizeItems(items: unknown[], normalize: Normalizer): JsonObject[] {
+  return items.filter(isRecord).map((item) => normalize(item));
+}
+
+/** Builds the list model from a raw Saviynt list response. */
+export function normalizeList(response: unknown, normalize: Normalizer): JsonObject {
+  const page = extractPage(response);
+  return {
+    success: true,
+    count: page.items.length,
+    totalCount: page.total ?? null,
+    items: normalizeItems(page.items, normalize),
+  };
+}
+
+/** First array among `keys`, matched like `pick`; records only. */
+function pickList(raw: JsonObject, ...keys: string[]): JsonObject[] {
+  const folded = foldKeys(raw);
+  for (const key of keys) {
+    const value = folded.get(foldKey(key));
+    if (Array.isArray(value)) {
+      return value.filter(isRecord);
+    }
+  }
+  return [];
+}
+
+const APPROVAL_KEYS = ["approvals", "approvalDetails", "approverDetails", "approvalHistory"];
+const TASK_KEYS = ["provisioningTasks", "tasks", "taskDetails", "tasksList"];
+const COMMENT_KEYS = ["comments", "commentHistory", "requestComments"];
+
+const normalizeApproval: Normalizer = (raw) => ({
+  approver: pick(raw, "approver", "approvername", "assignee", "username"),
+  level: pick(raw, "level", "approvallevel", "sequence"),
+  status: normalizeStatus(pick(raw, "status", "approvalstatus", "action")),
+  decidedAt: pick(raw, "approvedon", "actiondate", "updatedate", "decidedAt"),
+  comments: pick(raw, "comments", "approvercomments", "comment"),
+});
+
+const normalizeTask: Normalizer = (raw) => ({
+  id: pick(raw, "taskkey", "taskid", "id"),
+  type: pick(raw, "tasktype", "taskType", "type"),
+  status: normalizeStatus(pick(raw, "taskstatus", "status")),
+  account: pick(raw, "accountname", "account", "accountName"),
+  entitlement: pick(raw, "entitlement_value", "entitlementValue", "entitlement"),
+  updatedAt: pick(raw, "updatedate", "completedate", "updatedAt"),
+});
+
+const normalizeComment: Normalizer = (raw) => ({
+  author: pick(raw, "commentedby", "author", "username", "user"),
+  text: pick(raw, "comment", "comments", "text"),
+  at: pick(raw, "commentdate", "createdate", "date"),
+});
+
+/**
+ * Builds the full request model out of a fetchRequestHistoryDetails response:
+ * line items, the approval chain, provisioning tasks and comments. Approvals
+ * and tasks listed under a line item are merged into the request-wide lists.
+ */
+export function normalizeAccessRequestDetail(response: unknown): JsonObject {
+  const root = isRecord(response) ? response : {};
+  const header =
+    [root.requestdetails, root.requestDetails, root.request, root.requestInfo].find(isRecord) ||
+    extractPage(response).items.find(isRecord) ||
+    root;
+  const lines = pickList(root, "accesses", "lineItems", "accessDetails", "requestaccess");
+  const approvals = [root, header, ...lines].flatMap((raw) => pickList(raw, ...APPROVAL_KEYS));
+  const tasks = [root, header, ...lines].flatMap((raw) => pickList(raw, ...TASK_KEYS));
+  const comments = [root, header].flatMap((raw) => pickList(raw, ...COMMENT_KEYS));
+
+  const chain = normalizeItems(approvals, normalizeApproval);
+  const listed = [root.currentApprovers, header.currentApprovers, header.pendingApprovers]
+    .find(Array.isArray)
+    ?.map(String);
+  const currentApprovers =
+    listed ??
+    chain
+      .filter((approval) => approval.status === "pending" && approval.approver)
+      .map((approval) => String(approval.approver));
+
+  return {
+    ...normalizeAccessRequest(header),
+    currentApprovers: [...new Set(currentApprovers)],
+    lineItems: lines.map((raw) => ({
+      id: pick(raw, "requestaccesskey", "lineitemid", "id"),
+      action: pick(raw, "action", "requesttype", "accesstype"),
+      application: pick(raw, "endpoint", "endpointname", "application", "applicationname"),
+      account: pick(raw, "accountname", "account", "accountName"),
+      entitlement: pick(raw, "entitlement_value", "entitlementValue", "entitlement"),
+      status: normalizeStatus(pick(raw, "status", "requestaccessstatus", "accessstatus")),
+    })),
+    approvals: chain,
+    provisioningTasks: normalizeItems(tasks, normalizeTask),
+    comments: normalizeItems(comments, normalizeComment),
+  };
+}
+
+/**
+ * Picks the single user record out of a getUser response. `userdetails` wins
+ * over the list heuristic, which would otherwise take any sibling array such
+ * as `roles`.
+ */
+export function normalizeUserResponse(response: unknown): JsonObject {
+  const details = isRecord(response) ? response.userdetails : undefined;
+  const record = isRecord(details)
+    ? details
+    : Array.isArray(details)
+      ? details.find(isRecord)
+      : extractPage(response).items.find(isRecord) || (isRecord(response) ? response : undefined);
+  return { success: true, user: record ? normalizeUser(record) : null };
+}
+
+/** First record of a list response whose value under any of `keys` equals `id`, ignoring case. */
+export function findRecord(response: unknown, id: string, keys: string[]): JsonObject | undefined {
+  const wanted = id.toLowerCase();
+  return extractPage(response)
+    .items.filter(isRecord)
+    .find((item) => keys.some((key) => pick(item, key)?.toLowerCase() === wanted));
+}
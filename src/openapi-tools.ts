@@ -0,0 +1,326 @@
+import { readFileSync } from "node:fs";
+import * as z from "zod/v4";
+import { asString, isRecord, matchesAnyGlob, type JsonObject } from "./utils.js";
+
+export type OpenApiMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** One spec operation, ready to be registered as an MCP tool. */
+export interface OpenApiOperation {
+  toolName: string;
+  operationId: string;
+  description: string;
+  method: OpenApiMethod;
+  /** Path below the tenant base URL, with `{name}` placeholders for path parameters. */
+  path: string;
+  /** Writes go through the write checks; reads may be shaped and cached. */
+  write: boolean;
+  /** Deletes and removals; these need a confirmation token like the hand-written ones. */
+  destructive: boolean;
+  pathParams: string[];
+  /** Path parameters, plus `params` for the query string and `payload` for the body. */
+  inputSchema: Record<string, z.ZodTypeAny>;
+}
+
+export interface OpenApiToolOptions {
+  /** Prepended to every generated tool name. */
+  prefix: string;
+  /** `*` globs over tool name, operationId or path. Empty allows every operation. */
+  allow?: string[];
+  deny?: string[];
+}
+
+const DEFAULT_TOOL_PREFIX = "saviynt_api_";
+const MAX_TOOL_NAME_LENGTH = 64;
+const MAX_SCHEMA_DEPTH = 8;
+const METHODS: OpenApiMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+// Saviynt serves most lookups over POST, so reads are also recognized by their verb.
+const READ_OPERATION = /^(get|list|search|fetch|find|check|view|export)/i;
+const DESTRUCTIVE_OPERATION = /^(delete|remove|revoke)/i;
+
+function snakeCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase();
+}
+
+/** Follows local `#/...` references; remote references are not supported. */
+function resolveRef(spec: JsonObject, value: unknown): unknown {
+  let current = value;
+  for (let hops = 0; isRecord(current) && typeof current.$ref === "string"; hops += 1) {
+    const ref = current.$ref;
+    if (!ref.startsWith("#/") || hops > MAX_SCHEMA_DEPTH) {
+      throw new Error(`Unsupported OpenAPI reference '${ref}'.`);
+    }
+    current = ref
+      .slice(2)
+      .split("/")
+      .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce<unknown>((node, part) => (isRecord(node) ? node[part] : undefined), spec);
+    if (current === undefined) {
+      throw new Error(`OpenAPI reference '${ref}' does not resolve.`);
+    }
+  }
+  return current;
+}
+
+/** Converts a JSON Schema fragment to zod. Deep or unknown shapes become `z.unknown()`. */
+function toZod(spec: JsonObject, value: unknown, depth = 0): z.ZodTypeAny {
+  const schema = resolveRef(spec, value);
+  if (!isRecord(schema) || depth > MAX_SCHEMA_DEPTH) {
+    return z.unknown();
+  }
+  let result: z.ZodTypeAny;
+  const variants = (schema.oneOf || schema.anyOf) as unknown[] | undefined;
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map((part) => resolveRef(spec, part)).filter(isRecord);
+    result = toZod(
+      spec,
+      {
+        type: "object",
+        properties: Object.assign({}, ...parts.map((part) => part.properties || {})),
+        required: parts.flatMap((part) => (Array.isArray(part.required) ? part.required : [])),
+      },
+      depth + 1
+    );
+  } else if (Array.isArray(variants) && variants.length > 0) {
+    const options = variants.map((variant) => toZod(spec, variant, depth + 1));
+    result =
+      options.length === 1
+        ? options[0]
+        : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  } else if (
+    Array.isArray(schema.enum) &&
+    schema.enum.length > 0 &&
+    schema.enum.every((item) => typeof item === "string")
+  ) {
+    result = z.enum(schema.enum as [string, ...string[]]);
+  } else if (schema.type === "string") {
+    result = z.string();
+  } else if (schema.type === "integer") {
+    result = z.number().int();
+  } else if (schema.type === "number") {
+    result = z.number();
+  } else if (schema.type === "boolean") {
+    result = z.boolean();
+  } else if (schema.type === "array") {
+    result = z.array(toZod(spec, schema.items, depth + 1));
+  } else if (schema.type === "object" || isRecord(schema.properties)) {
+    const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      const field = toZod(spec, property, depth + 1);
+      shape[name] = required.has(name) ? field : field.optional();
+    }
+    result = z.object(shape).passthrough();
+  } else {
+    result = z.unknown();
+  }
+  if (schema.nullable === true) {
+    result = result.nullable();
+  }
+  const description = asString(schema.description) || asString(schema.title);
+  return description ? result.describe(description) : result;
+}
+
+interface ParameterObject {
+  name: string;
+  in: string;
+  required: boolean;
+  description?: string;
+  /** OpenAPI 3 keeps the type under `schema`; Swagger 2 keeps it on the parameter. */
+  schema: unknown;
+}
+
+function readParameters(spec: JsonObject, ...lists: unknown[]): ParameterObject[] {
+  const byKey = new Map<string, ParameterObject>();
+  for (const list of lists) {
+    for (const raw of Array.isArray(list) ? list : []) {
+      const parameter = resolveRef(spec, raw);
+      if (!isRecord(parameter) || typeof parameter.name !== "string") {
+        continue;
+      }
+      // Operation-level parameters override path-level ones of the same name.
+      byKey.set(`${String(parameter.in)}:${parameter.name}`, {
+        name: parameter.name,
+        in: String(parameter.in),
+        required: parameter.required === true || parameter.in === "path",
+        description: asString(parameter.description),
+        schema: parameter.schema ?? parameter,
+      });
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+function describeField(field: z.ZodTypeAny, description?: string): z.ZodTypeAny {
+  return description ? field.describe(description) : field;
+}
+
+/** Request body schema and whether it is required, for Swagger 2 or OpenAPI 3. */
+function readBody(
+  spec: JsonObject,
+  operation: JsonObject,
+  parameters: ParameterObject[]
+): { schema: z.ZodTypeAny; required: boolean } | null {
+  const requestBody = resolveRef(spec, operation.requestBody);
+  if (isRecord(requestBody) && isRecord(requestBody.content)) {
+    const content = requestBody.content;
+    const media = content["application/json"] ?? Object.values(content)[0];
+    return {
+      schema: toZod(spec, isRecord(media) ? media.schema : undefined),
+      required: requestBody.required === true,
+    };
+  }
+  const body = parameters.find((parameter) => parameter.in === "body");
+  if (body) {
+    return { schema: toZod(spec, body.schema), required: body.required };
+  }
+  const formFields = parameters.filter((parameter) => parameter.in === "formData");
+  if (formFields.length > 0) {
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const field of formFields) {
+      const value = describeField(toZod(spec, field.schema), field.description);
+      shape[field.name] = field.required ? value : value.optional();
+    }
+    return {
+      schema: z.object(shape).passthrough(),
+      required: formFields.some((field) => field.required),
+    };
+  }
+  return null;
+}
+
+/** Path prefix from Swagger 2 `basePath` or the first OpenAPI 3 server URL. */
+function readBasePath(spec: JsonObject): string {
+  const server = Array.isArray(spec.servers) ? spec.servers[0] : undefined;
+  const url = asString(spec.basePath) || (isRecord(server) ? asString(server.url) : undefined);
+  return (url || "").replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, "").replace(/\/+$/, "");
+}
+
+function isAllowed(
+  operation: Pick<OpenApiOperation, "toolName" | "operationId" | "path">,
+  options: OpenApiToolOptions
+): boolean {
+  const names = [operation.toolName, operation.operationId, operation.path];
+  if (names.some((name) => matchesAnyGlob(options.deny, name, true))) {
+    return false;
+  }
+  return !options.allow?.length || names.some((name) => matchesAnyGlob(options.allow, name, true));
+}
+
+/**
+ * Builds tool definitions from an OpenAPI 3 or Swagger 2 document. Each
+ * operation becomes one tool named `<prefix><operationId in snake_case>`.
+ */
+export function parseOpenApiOperations(
+  spec: unknown,
+  options: OpenApiToolOptions
+): OpenApiOperation[] {
+  if (!isRecord(spec) || !isRecord(spec.paths)) {
+    throw new Error("OpenAPI spec must be an object with a 'paths' object.");
+  }
+  const basePath = readBasePath(spec);
+  const operations: OpenApiOperation[] = [];
+  const usedNames = new Set<string>();
+
+  for (const [path, rawPathItem] of Object.entries(spec.paths)) {
+    const pathItem = resolveRef(spec, rawPathItem);
+    if (!isRecord(pathItem)) {
+      continue;
+    }
+    for (const method of METHODS) {
+      const operation = pathItem[method.toLowerCase()];
+      if (!isRecord(operation) || operation.deprecated === true) {
+        continue;
+      }
+      const operationId =
+        asString(operation.operationId) || `${method.toLowerCase()}_${snakeCase(path)}`;
+      let toolName = `${options.prefix}${snakeCase(operationId)}`.slice(0, MAX_TOOL_NAME_LENGTH);
+      for (let suffix = 2; usedNames.has(toolName); suffix += 1) {
+        toolName = `${toolName.slice(0, MAX_TOOL_NAME_LENGTH - 3)}_${suffix}`;
+      }
+      const fullPath = `${basePath}${path}`;
+      if (!isAllowed({ toolName, operationId, path: fullPath }, options)) {
+        continue;
+      }
+      usedNames.add(toolName);
+
+      const parameters = readParameters(spec, pathItem.parameters, operation.parameters);
+      const inputSchema: Record<string, z.ZodTypeAny> = {};
+      const pathParams: string[] = [];
+      for (const parameter of parameters.filter((item) => item.in === "path")) {
+        pathParams.push(parameter.name);
+        inputSchema[parameter.name] = describeField(z.string().min(1), parameter.description);
+      }
+      const queryParams = parameters.filter((item) => item.in === "query");
+      if (queryParams.length > 0) {
+        const shape: Record<string, z.ZodTypeAny> = {};
+        for (const parameter of queryParams) {
+          const field = describeField(toZod(spec, parameter.schema), parameter.description);
+          shape[parameter.name] = parameter.required ? field : field.optional();
+        }
+        const params = z.object(shape).passthrough().describe("Query string parameters");
+        inputSchema.params = queryParams.some((item) => item.required)
+          ? params
+          : params.optional();
+      }
+      const body = readBody(spec, operation, parameters);
+      if (body) {
+        const payload = body.schema.describe("Request body");
+        inputSchema.payload = body.required ? payload : payload.optional();
+      }
+
+      const readOnly = operation["x-mcp-read-only"];
+      const write =
+        typeof readOnly === "boolean"
+          ? !readOnly
+          : method !== "GET" && !READ_OPERATION.test(operationId);
+      const summary = asString(operation.summary) || asString(operation.description);
+      const source = `${method} ${fullPath}, from the OpenAPI spec`;
+      operations.push({
+        toolName,
+        operationId,
+        description: summary ? `${summary.slice(0, 1000)} (${source})` : `${source}.`,
+        method,
+        path: fullPath,
+        write,
+        destructive: write && (method === "DELETE" || DESTRUCTIVE_OPERATION.test(operationId)),
+        pathParams,
+        inputSchema,
+      });
+    }
+  }
+  return operations;
+}
+
+function listFromEnv(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+let environmentOperations: OpenApiOperation[] | undefined;
+
+/**
+ * Operations from the spec file in SAVIYNT_OPENAPI_SPEC, filtered by the
+ * comma-separated globs in SAVIYNT_OPENAPI_ALLOW and SAVIYNT_OPENAPI_DENY and
+ * named with SAVIYNT_OPENAPI_TOOL_PREFIX. Empty when no spec is configured.
+ */
+export function getOpenApiOperationsFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): OpenApiOperation[] {
+  if (environmentOperations === undefined) {
+    const path = asString(env.SAVIYNT_OPENAPI_SPEC);
+    environmentOperations = path
+      ? parseOpenApiOperations(JSON.parse(readFileSync(path, "utf8")), {
+          prefix: env.SAVIYNT_OPENAPI_TOOL_PREFIX ?? DEFAULT_TOOL_PREFIX,
+          allow: listFromEnv(env.SAVIYNT_OPENAPI_ALLOW),
+          deny: listFromEnv(env.SAVIYNT_OPENAPI_DENY),
+        })
+      : [];
+  }
+  return environmentOperations;
+}
@@ -0,0 +1,133 @@
+import { isRecord, type JsonObject } from "./utils.js";
+
+/**
+ * Keys Saviynt list endpoints use for the total row count. `count` is left out:
+ * several endpoints use it for the rows in the current page.
+ */
+const TOTAL_KEYS = ["totalcount", "totalCount", "total", "totalRecords"];
+/** Common collection keys, checked before falling back to the first array. */
+const ITEM_KEYS = ["items", "data", "results", "requests", "users", "userdetails", "roles", "campaigns"];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const DEFAULT_MAX_PAGES = 10;
+
+export interface PageData {
+  items: unknown[];
+  total?: number;
+}
+
+/** Continuation state; the cursor is opaque to clients. */
+export interface CursorState {
+  tool: string;
+  offset: number;
+  pageSize: number;
+  filters: JsonObject;
+}
+
+export interface PaginateOptions {
+  fetchPage: (offset: number, max: number) => Promise<unknown>;
+  offset: number;
+  pageSize: number;
+  /** Upper bound on requests for this call. */
+  maxPages: number;
+  /** Checked after each page with every item so far; false stops with `nextOffset` set. */
+  shouldContinue?: (items: unknown[]) => boolean;
+}
+
+export interface PaginatedResult {
+  items: unknown[];
+  totalCount?: number;
+  pagesFetched: number;
+  /** Offset of the next unread row, or null when the listing is complete. */
+  nextOffset: number | null;
+}
+
+function toCount(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? Number.parseInt(value, 10) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/** Finds the row array and total count in a Saviynt list response. */
+export function extractPage(response: unknown): PageData {
+  if (Array.isArray(response)) {
+    return { items: response };
+  }
+  if (!isRecord(response)) {
+    return { items: [] };
+  }
+
+  let total: number | undefined;
+  for (const key of TOTAL_KEYS) {
+    total = toCount(response[key]);
+    if (total !== undefined) {
+      break;
+    }
+  }
+
+  const itemsKey = findItemsKey(response);
+  return { items: itemsKey ? (response[itemsKey] as unknown[]) : [], total };
+}
+
+/** Key of the row array in a list response: a common collection key, else the first array. */
+export function findItemsKey(response: JsonObject): string | undefined {
+  return (
+    ITEM_KEYS.find((key) => Array.isArray(response[key])) ||
+    Object.keys(response).find((key) => Array.isArray(response[key]))
+  );
+}
+
+/**
+ * Requests pages until one comes back empty, the reported total is reached
+ * or `maxPages` requests have been made. A short page does not end the
+ * listing, because Saviynt may cap `max` below the requested page size.
+ */
+export async function paginate(options: PaginateOptions): Promise<PaginatedResult> {
+  const items: unknown[] = [];
+  let offset = options.offset;
+  let totalCount: number | undefined;
+  let pagesFetched = 0;
+  let complete = false;
+
+  while (pagesFetched < options.maxPages) {
+    const page = extractPage(await options.fetchPage(offset, options.pageSize));
+    pagesFetched += 1;
+    items.push(...page.items);
+    offset += page.items.length;
+    totalCount = page.total ?? totalCount;
+
+    if (page.items.length === 0 || (totalCount !== undefined && offset >= totalCount)) {
+      complete = true;
+      break;
+    }
+    if (options.shouldContinue && !options.shouldContinue(items)) {
+      break;
+    }
+  }
+
+  return { items, totalCount, pagesFetched, nextOffset: complete ? null : offset };
+}
+
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state), "utf8").toString("base64url");
+}
+
+export function decodeCursor(cursor: string, tool: string): CursorState {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor. Start the listing again without 'cursor'.");
+  }
+  if (
+    !isRecord(parsed) ||
+    typeof parsed.offset !== "number" ||
+    typeof parsed.pageSize !== "number" ||
+    !isRecord(parsed.filters)
+  ) {
+    throw new Error("Invalid cursor. Start the listing again without 'cursor'.");
+  }
+  if (parsed.tool !== tool) {
+    throw new Error(`Cursor was issued by '${String(parsed.tool)}', not '${tool}'.`);
+  }
+  return parsed as unknown as CursorState;
+}
@@ -0,0 +1,165 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod/v4";
+
+/** Shared rules for every workflow that may end in a write. */
+const WRITE_GUIDANCE = [
+  "Before any write tool, call it with `dryRun: true` and show me the exact request.",
+  "Only send the real request after I explicitly agree to that request.",
+  "If a write returns `confirmationRequired: true`, show me its `preview`. Only after I agree,",
+  "repeat the same call unchanged with the returned token as the `confirmationToken` argument.",
+  "Never invent or reuse tokens.",
+].join(" ");
+
+function userPrompt(lines: Array<string | false | undefined>): GetPromptResult {
+  return {
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text: lines.filter((line) => typeof line === "string").join("\n") },
+      },
+    ],
+  };
+}
+
+function profileLine(profileId?: string): string {
+  return profileId
+    ? `Pass \`profileId: "${profileId}"\` to every Saviynt tool call.`
+    : "Use the active Saviynt profile; call `saviynt_list_profiles` first if unsure which.";
+}
+
+const profileIdArg = z.string().optional().describe("Saviynt profile to run against");
+
+/**
+ * Registers prompts for common IGA workflows. Each one chains existing tools
+ * with guidance so agents handle reviews and access changes consistently.
+ */
+export function registerWorkflowPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "review_pending_approvals",
+    {
+      title: "Review pending approvals",
+      description: "Walk through the access requests waiting for the current approver.",
+      argsSchema: {
+        profileId: profileIdArg,
+        status: z.string().optional().describe("Request status to review. Default: PENDING"),
+        max: z.string().optional().describe("Maximum requests to load. Default: 25"),
+      },
+    },
+    ({ profileId, status, max }) =>
+      userPrompt([
+        "Help me review the Saviynt access requests waiting for my approval.",
+        profileLine(profileId),
+        "",
+        "1. Call `get_list_of_pending_requests_for_approver` with " +
+          `\`status: "${status || "PENDING"}"\` and \`max: ${Number(max) || 25}\`.`,
+        "2. For each request, call `get_complete_access_path` for the beneficiary, with the",
+        "   request's application as `applicationId` when known, to see what they already have.",
+        "   Call `saviynt_check_sod_impact` with the requested entitlements to find conflicts.",
+        "3. Present one table: request ID, beneficiary, requested access, requestor, age, and a",
+        "   recommendation (approve / reject / ask) with a one-line reason. Flag duplicate access,",
+        "   requests for privileged entitlements, SoD conflicts, and inactive beneficiaries.",
+        "4. Wait for my decision on each request. Then use `saviynt_approve_request` with my",
+        "   comments as `approverComments`, or `saviynt_reject_request` with `rejectionReason`.",
+        "",
+        WRITE_GUIDANCE,
+        "Never approve or reject a request I have not decided on.",
+      ])
+  );
+
+  server.registerPrompt(
+    "investigate_access_path",
+    {
+      title: "Investigate a user's access path",
+      description: "Explain how a user holds their accounts, entitlements and roles.",
+      argsSchema: {
+        userId: z.string().describe("Username or user key"),
+        applicationId: z.string().optional().describe("Limit to one application"),
+        question: z.string().optional().describe("What to find out, e.g. why they can reach X"),
+        profileId: profileIdArg,
+      },
+    },
+    ({ userId, applicationId, question, profileId }) =>
+      userPrompt([
+        `Investigate the access of Saviynt user \`${userId}\`` +
+          (applicationId ? ` in application \`${applicationId}\`.` : "."),
+        question && `Question to answer: ${question}`,
+        profileLine(profileId),
+        "",
+        `1. Call \`get_complete_access_path\` with \`userId: "${userId}"\`` +
+          (applicationId ? ` and \`applicationId: "${applicationId}"\`.` : "."),
+        "2. Call `get_user_roles` to see role-based grants, and `saviynt_search_access_requests`",
+        "   with a `where` filter on the beneficiary for the user's request history.",
+        "3. For each account, list its entitlements and whether each came from a role, an access",
+        "   request, or neither (direct or imported assignment).",
+        "4. Point out orphaned accounts, entitlements without a matching request or role, and",
+        "   access that does not fit the user's department or title.",
+        "",
+        "This is a read-only investigation: do not call any write tool.",
+      ])
+  );
+
+  server.registerPrompt(
+    "onboard_application",
+    {
+      title: "Onboard a new application",
+      description: "Plan and create the security system and endpoint for a new application.",
+      argsSchema: {
+        applicationName: z.string().describe("Name for the new endpoint"),
+        connectionType: z.string().optional().describe("Connector, e.g. REST, AD, DB"),
+        owner: z.string().optional().describe("Application owner username"),
+        profileId: profileIdArg,
+      },
+    },
+    ({ applicationName, connectionType, owner, profileId }) =>
+      userPrompt([
+        `Help me onboard the application \`${applicationName}\` into Saviynt.`,
+        connectionType && `Connection type: ${connectionType}.`,
+        owner && `Application owner: ${owner}.`,
+        profileLine(profileId),
+        "",
+        "1. Call `saviynt_list_endpoints` and `saviynt_search_security_systems` to make sure the",
+        "   application does not exist yet, and to copy naming conventions from similar ones.",
+        "2. Draft the `saviynt_create_security_system` and `saviynt_create_endpoint` payloads.",
+        "   Ask me for anything you cannot infer (connection, owner, description, access query).",
+        "3. Create the security system first, then the endpoint that references it.",
+        "4. Confirm with `saviynt_list_endpoints` and summarize what was created and what is",
+        "   still manual (connection credentials, entitlement import, campaigns).",
+        "",
+        WRITE_GUIDANCE,
+      ])
+  );
+
+  server.registerPrompt(
+    "prepare_leaver_offboarding",
+    {
+      title: "Prepare a leaver offboarding",
+      description: "Inventory a leaver's access and revoke it with approval.",
+      argsSchema: {
+        userId: z.string().describe("Username or user key of the leaver"),
+        lastWorkingDay: z.string().optional().describe("ISO date"),
+        keep: z.string().optional().describe("Accounts or applications to keep, comma-separated"),
+        profileId: profileIdArg,
+      },
+    },
+    ({ userId, lastWorkingDay, keep, profileId }) =>
+      userPrompt([
+        `Prepare the offboarding of Saviynt user \`${userId}\`.`,
+        lastWorkingDay && `Last working day: ${lastWorkingDay}.`,
+        keep && `Keep this access: ${keep}.`,
+        profileLine(profileId),
+        "",
+        `1. Call \`get_complete_access_path\` with \`userId: "${userId}"\` and \`get_user_roles\`.`,
+        "2. Call `saviynt_search_access_requests` with a `where` filter on the beneficiary and",
+        "   list open requests that should be rejected or withdrawn.",
+        "3. Present the offboarding plan: every account with its entitlements, marked revoke or",
+        "   keep, plus roles to remove. Ask me to confirm the plan.",
+        "4. For each approved account, call `saviynt_revoke_access` with the `accountId`, the",
+        "   `entitlementIds` to remove, and a `reason` referencing the offboarding. Use",
+        "   `saviynt_remove_role` for roles.",
+        "5. Finish with a summary of what was revoked, what failed, and what was kept.",
+        "",
+        WRITE_GUIDANCE,
+      ])
+  );
+}
@@ -0,0 +1,245 @@
+import { RequestCancelledError, RequestTimeoutError } from "./retry.js";
+
+const DEFAULT_REQUESTS_PER_SECOND = 10;
+const DEFAULT_MAX_IN_FLIGHT = 4;
+/** Buckets untouched for this long are dropped. */
+const IDLE_BUCKET_MS = 10 * 60 * 1000;
+
+export interface RateLimitConfig {
+  requestsPerSecond: number;
+  /** Tokens a bucket can hold; defaults to `requestsPerSecond`. */
+  burst: number;
+  maxInFlight: number;
+}
+
+export interface RateLimitStatus {
+  requestsPerSecond: number;
+  burst: number;
+  availableTokens: number;
+  maxInFlight: number;
+  inFlight: number;
+  queued: number;
+  totalRequests: number;
+  throttledRequests: number;
+}
+
+interface Waiter {
+  resolve: () => void;
+  timer: NodeJS.Timeout;
+  onAbort: () => void;
+}
+
+interface Bucket {
+  tokens: number;
+  refilledAt: number;
+  inFlight: number;
+  waiters: Waiter[];
+  totalRequests: number;
+  throttledRequests: number;
+}
+
+/**
+ * Token bucket plus an in-flight cap per tenant key (profile and base URL).
+ * `acquire` waits for both a token and a free slot, never past the deadline
+ * or after `signal` aborts, and returns the function that frees the slot again.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(readonly config: RateLimitConfig) {}
+
+  async acquire(key: string, deadline: number, signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      throw cancelled();
+    }
+    const bucket = this.bucket(key);
+    bucket.totalRequests += 1;
+    const slotTaken = bucket.inFlight >= this.config.maxInFlight || bucket.waiters.length > 0;
+    if (slotTaken) {
+      await this.waitForSlot(bucket, deadline, signal);
+    } else {
+      bucket.inFlight += 1;
+    }
+
+    let waitedForToken: boolean;
+    try {
+      waitedForToken = await this.takeToken(bucket, deadline, signal);
+    } catch (error) {
+      this.release(bucket);
+      throw error;
+    }
+    if (slotTaken || waitedForToken) {
+      bucket.throttledRequests += 1;
+    }
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.release(bucket);
+      }
+    };
+  }
+
+  status(key: string): RateLimitStatus {
+    const bucket = this.buckets.get(key);
+    if (bucket) {
+      this.refill(bucket);
+    }
+    return {
+      requestsPerSecond: this.config.requestsPerSecond,
+      burst: this.config.burst,
+      availableTokens: bucket ? Math.floor(bucket.tokens) : this.config.burst,
+      maxInFlight: this.config.maxInFlight,
+      inFlight: bucket?.inFlight ?? 0,
+      queued: bucket?.waiters.length ?? 0,
+      totalRequests: bucket?.totalRequests ?? 0,
+      throttledRequests: bucket?.throttledRequests ?? 0,
+    };
+  }
+
+  private bucket(key: string): Bucket {
+    const now = Date.now();
+    for (const [otherKey, other] of this.buckets) {
+      const idle = other.inFlight === 0 && other.waiters.length === 0;
+      if (idle && now - other.refilledAt > IDLE_BUCKET_MS) {
+        this.buckets.delete(otherKey);
+      }
+    }
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        tokens: this.config.burst,
+        refilledAt: now,
+        inFlight: 0,
+        waiters: [],
+        totalRequests: 0,
+        throttledRequests: 0,
+      };
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: Bucket): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - bucket.refilledAt) / 1000;
+    bucket.tokens = Math.min(
+      this.config.burst,
+      bucket.tokens + elapsedSeconds * this.config.requestsPerSecond
+    );
+    bucket.refilledAt = now;
+  }
+
+  /** Resolves to true when the call had to wait for the bucket to refill. */
+  private async takeToken(
+    bucket: Bucket,
+    deadline: number,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    for (let waited = false; ; waited = true) {
+      this.refill(bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return waited;
+      }
+      const waitMs = Math.ceil(((1 - bucket.tokens) / this.config.requestsPerSecond) * 1000);
+      if (Date.now() + waitMs >= deadline) {
+        throw new RequestTimeoutError(
+          "Deadline reached while waiting for the Saviynt rate limit."
+        );
+      }
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = (): void => {
+          clearTimeout(timer);
+          reject(cancelled());
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        }, waitMs);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+  }
+
+  private waitForSlot(bucket: Bucket, deadline: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const leave = (error: Error): void => {
+        clearTimeout(waiter.timer);
+        signal?.removeEventListener("abort", waiter.onAbort);
+        bucket.waiters.splice(bucket.waiters.indexOf(waiter), 1);
+        reject(error);
+      };
+      const waiter: Waiter = {
+        resolve: () => {
+          clearTimeout(waiter.timer);
+          signal?.removeEventListener("abort", waiter.onAbort);
+          resolve();
+        },
+        timer: setTimeout(
+          () =>
+            leave(
+              new RequestTimeoutError(
+                "Deadline reached while waiting for a free Saviynt request slot."
+              )
+            ),
+          Math.max(0, deadline - Date.now())
+        ),
+        onAbort: () => leave(cancelled()),
+      };
+      signal?.addEventListener("abort", waiter.onAbort, { once: true });
+      bucket.waiters.push(waiter);
+    });
+  }
+
+  /** Hands the slot to the next waiter, or frees it. */
+  private release(bucket: Bucket): void {
+    const next = bucket.waiters.shift();
+    if (next) {
+      next.resolve();
+    } else {
+      bucket.inFlight = Math.max(0, bucket.inFlight - 1);
+    }
+  }
+}
+
+function cancelled(): RequestCancelledError {
+  return new RequestCancelledError("Cancelled while waiting for the Saviynt rate limit.");
+}
+
+let sharedLimiter: RateLimiter | null | undefined;
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Process-wide limiter from SAVIYNT_RATE_LIMIT_RPS, SAVIYNT_RATE_LIMIT_BURST
+ * and SAVIYNT_MAX_IN_FLIGHT, shared so per-request servers count together.
+ * SAVIYNT_RATE_LIMIT=false disables it.
+ */
+export function getRateLimiterFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): RateLimiter | null {
+  if (sharedLimiter !== undefined) {
+    return sharedLimiter;
+  }
+  if (env.SAVIYNT_RATE_LIMIT?.toLowerCase() === "false") {
+    sharedLimiter = null;
+    return sharedLimiter;
+  }
+  const requestsPerSecond = positiveNumber(
+    env.SAVIYNT_RATE_LIMIT_RPS,
+    DEFAULT_REQUESTS_PER_SECOND
+  );
+  const burst = positiveNumber(env.SAVIYNT_RATE_LIMIT_BURST, requestsPerSecond);
+  const maxInFlight = positiveNumber(env.SAVIYNT_MAX_IN_FLIGHT, DEFAULT_MAX_IN_FLIGHT);
+  sharedLimiter = new RateLimiter({
+    requestsPerSecond,
+    burst: Math.max(1, Math.floor(burst)),
+    maxInFlight: Math.max(1, Math.floor(maxInFlight)),
+  });
+  return sharedLimiter;
+}
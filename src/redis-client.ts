@@ -0,0 +1,256 @@
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+
+export type RedisReply = string | number | null | RedisReply[];
+
+interface PendingCommand {
+  resolve: (value: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+interface Connection {
+  socket: Socket;
+  buffer: Buffer;
+  pending: PendingCommand[];
+}
+
+interface ParsedReply {
+  value: RedisReply | Error;
+  offset: number;
+}
+
+export class RedisReplyError extends Error {}
+
+export const DEFAULT_REDIS_TIMEOUT_MS = 5000;
+
+function findLineEnd(buffer: Buffer, offset: number): number {
+  return buffer.indexOf("\r\n", offset, "utf8");
+}
+
+function parseReply(buffer: Buffer, offset: number): ParsedReply | undefined {
+  if (offset >= buffer.length) {
+    return undefined;
+  }
+
+  const lineEnd = findLineEnd(buffer, offset + 1);
+  if (lineEnd < 0) {
+    return undefined;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, offset: next };
+    case "-":
+      return { value: new RedisReplyError(line), offset: next };
+    case ":":
+      return { value: Number.parseInt(line, 10), offset: next };
+    case "$": {
+      const length = Number.parseInt(line, 10);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return { value: buffer.toString("utf8", next, next + length), offset: next + length + 2 };
+    }
+    case "*": {
+      const count = Number.parseInt(line, 10);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+      const items: RedisReply[] = [];
+      let cursor = next;
+      for (let index = 0; index < count; index += 1) {
+        const item = parseReply(buffer, cursor);
+        if (!item) {
+          return undefined;
+        }
+        items.push(item.value instanceof Error ? null : item.value);
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type '${type}'.`);
+  }
+}
+
+function encodeCommand(args: string[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    parts.push(`$${Buffer.byteLength(arg, "utf8")}\r\n${arg}\r\n`);
+  }
+  return Buffer.from(parts.join(""), "utf8");
+}
+
+function failPending(connection: Connection, error: Error): void {
+  while (connection.pending.length > 0) {
+    connection.pending.shift()?.reject(error);
+  }
+}
+
+/**
+ * Minimal RESP2 client: enough of the Redis protocol for hash/string commands,
+ * so any Redis-compatible server (Redis, Valkey, KeyDB, Upstash, a local
+ * stand-in) can back the profile and token stores without extra dependencies.
+ *
+ * Connecting and every command are bounded by `timeoutMs`. Replies arrive in
+ * order, so a command that times out ends the connection (failing everything
+ * queued behind it) and the next command reconnects.
+ */
+export class RedisClient {
+  private connection: Connection | null = null;
+  private connecting: Promise<Connection> | null = null;
+  private readonly url: URL;
+
+  constructor(
+    url: string,
+    private readonly timeoutMs = DEFAULT_REDIS_TIMEOUT_MS
+  ) {
+    this.url = new URL(url);
+    if (this.url.protocol !== "redis:" && this.url.protocol !== "rediss:") {
+      throw new Error(`Unsupported Redis URL protocol '${this.url.protocol}'.`);
+    }
+  }
+
+  async command(...args: string[]): Promise<RedisReply> {
+    const connection = await this.ensureConnected();
+    return this.send(connection, args);
+  }
+
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = null;
+    this.connecting = null;
+    if (!connection) {
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      connection.socket.end(() => resolve());
+    });
+  }
+
+  private send(connection: Connection, args: string[]): Promise<RedisReply> {
+    return new Promise<RedisReply>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        connection.socket.destroy(
+          new Error(`Redis command ${args[0]} timed out after ${this.timeoutMs} ms.`)
+        );
+      }, this.timeoutMs);
+      connection.pending.push({
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      connection.socket.write(encodeCommand(args));
+    });
+  }
+
+  private ensureConnected(): Promise<Connection> {
+    if (this.connection && !this.connection.socket.destroyed) {
+      return Promise.resolve(this.connection);
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<Connection> {
+    const host = this.url.hostname || "127.0.0.1";
+    const port = Number.parseInt(this.url.port || "6379", 10);
+    const useTls = this.url.protocol === "rediss:";
+
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const onConnect = (): void => {
+        clearTimeout(timer);
+        created.off("error", onError);
+        resolve(created);
+      };
+      const onError = (error: Error): void => {
+        clearTimeout(timer);
+        reject(error);
+      };
+      const created = useTls
+        ? connectTls({ host, port, servername: host }, onConnect)
+        : connectTcp({ host, port }, onConnect);
+      created.once("error", onError);
+      const timer = setTimeout(() => {
+        created.destroy(new Error(`Redis connection timed out after ${this.timeoutMs} ms.`));
+      }, this.timeoutMs);
+    });
+
+    // Each connection owns its reply queue, so a late close of a dropped
+    // connection never fails commands already sent on its replacement.
+    const connection: Connection = { socket, buffer: Buffer.alloc(0), pending: [] };
+    socket.setNoDelay(true);
+    socket.unref();
+    socket.on("data", (chunk: Buffer) => this.onData(connection, chunk));
+    socket.on("error", (error) => failPending(connection, error));
+    socket.on("close", () => {
+      if (this.connection === connection) {
+        this.connection = null;
+      }
+      failPending(connection, new Error("Redis connection closed."));
+    });
+
+    try {
+      const password = decodeURIComponent(this.url.password || "");
+      const username = decodeURIComponent(this.url.username || "");
+      if (password) {
+        await this.send(connection, username ? ["AUTH", username, password] : ["AUTH", password]);
+      }
+
+      const database = this.url.pathname.replace(/^\//, "");
+      if (database) {
+        await this.send(connection, ["SELECT", database]);
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.connection = connection;
+    return connection;
+  }
+
+  private onData(connection: Connection, chunk: Buffer): void {
+    connection.buffer =
+      connection.buffer.length === 0 ? chunk : Buffer.concat([connection.buffer, chunk]);
+
+    let offset = 0;
+    while (connection.pending.length > 0) {
+      let parsed: ParsedReply | undefined;
+      try {
+        parsed = parseReply(connection.buffer, offset);
+      } catch (error) {
+        connection.socket.destroy(error as Error);
+        return;
+      }
+      if (!parsed) {
+        break;
+      }
+      offset = parsed.offset;
+      const waiter = connection.pending.shift();
+      if (parsed.value instanceof Error) {
+        waiter?.reject(parsed.value);
+      } else {
+        waiter?.resolve(parsed.value);
+      }
+    }
+
+    connection.buffer = connection.buffer.subarray(offset);
+  }
+}
@@ -0,0 +1,93 @@
+import type { JsonObject } from "./utils.js";
+
+/** Request statuses after which nothing more happens, compared lowercase. */
+export const TERMINAL_REQUEST_STATUSES = [
+  "complete",
+  "completed",
+  "closed",
+  "rejected",
+  "discontinued",
+  "cancelled",
+  "canceled",
+  "expired",
+  "withdrawn",
+  "failed",
+];
+
+export function isTerminalStatus(status: unknown, terminal = TERMINAL_REQUEST_STATUSES): boolean {
+  return (
+    typeof status === "string" &&
+    terminal.some((candidate) => candidate.toLowerCase() === status.toLowerCase())
+  );
+}
+
+export interface WaitOptions {
+  /** Delay before the second poll; doubles after each poll up to `maxIntervalMs`. */
+  intervalMs: number;
+  maxIntervalMs: number;
+  /** Epoch ms after which no poll is started. */
+  deadline: number;
+  terminalStatuses?: string[];
+  /** Aborts the wait between polls; the last detail is returned. */
+  signal?: AbortSignal;
+  /** Called after every poll with the 1-based poll number. */
+  onPoll?: (detail: JsonObject, poll: number) => Promise<void>;
+}
+
+export interface WaitResult {
+  detail: JsonObject;
+  terminal: boolean;
+  polls: number;
+  elapsedMs: number;
+  /** Why polling ended before a terminal status, or null when one was reached. */
+  stopReason: "timeout" | "cancelled" | null;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done(): void {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Polls `load` with backoff until the returned request detail has a terminal
+ * `status`, the deadline would pass before the next poll, or `signal` aborts.
+ */
+export async function waitForRequest(
+  load: () => Promise<JsonObject>,
+  options: WaitOptions
+): Promise<WaitResult> {
+  const startedAt = Date.now();
+  let intervalMs = options.intervalMs;
+  for (let poll = 1; ; poll += 1) {
+    const detail = await load();
+    await options.onPoll?.(detail, poll);
+    const finish = (stopReason: WaitResult["stopReason"]): WaitResult => ({
+      detail,
+      terminal: stopReason === null,
+      polls: poll,
+      elapsedMs: Date.now() - startedAt,
+      stopReason,
+    });
+    if (isTerminalStatus(detail.status, options.terminalStatuses)) {
+      return finish(null);
+    }
+    if (options.signal?.aborted) {
+      return finish("cancelled");
+    }
+    if (Date.now() + intervalMs >= options.deadline) {
+      return finish("timeout");
+    }
+    await delay(intervalMs, options.signal);
+    if (options.signal?.aborted) {
+      return finish("cancelled");
+    }
+    intervalMs = Math.min(options.maxIntervalMs, intervalMs * 2);
+  }
+}
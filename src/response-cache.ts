@@ -0,0 +1,173 @@
+import { canonicalJson, matchesAnyGlob, normalizeBaseUrl, positiveIntFromEnv } from "./utils.js";
+
+const DEFAULT_TTL_SECONDS = 60;
+const DEFAULT_MAX_ENTRIES = 500;
+
+/** Everything a cached response depends on; any difference is a separate entry. */
+export interface CacheKeyParts {
+  tool: string;
+  profileId: string;
+  /** Ties entries to the credential, so a changed password never reads old entries. */
+  credential: string;
+  baseUrl: string;
+  method: string;
+  endpoint: string;
+  query?: unknown;
+  body?: unknown;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  tool: string;
+  profileId: string;
+  baseUrl: string;
+  /** Endpoint patterns whose writes make this entry stale. */
+  invalidatedBy: string[];
+}
+
+export interface CacheFilter {
+  tool?: string;
+  profileId?: string;
+}
+
+export interface ResponseCacheStatus {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * TTL cache for read-only Saviynt lookups. Entries are evicted oldest first
+ * once `maxEntries` is reached and dropped when a write hits an endpoint
+ * matching their `invalidatedBy` patterns on the same base URL.
+ */
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly defaultTtlMs = DEFAULT_TTL_SECONDS * 1000,
+    private readonly toolTtlMs: Record<string, number> = {},
+    private readonly maxEntries = DEFAULT_MAX_ENTRIES
+  ) {}
+
+  static key(parts: CacheKeyParts): string {
+    return canonicalJson({ ...parts, baseUrl: normalizeBaseUrl(parts.baseUrl) });
+  }
+
+  /** TTL for a tool's entries; 0 means the tool is not cached. */
+  ttlFor(tool: string): number {
+    return this.toolTtlMs[tool] ?? this.defaultTtlMs;
+  }
+
+  get(key: string): { value: unknown } | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses += 1;
+      return undefined;
+    }
+    this.hits += 1;
+    return { value: entry.value };
+  }
+
+  set(key: string, parts: CacheKeyParts, value: unknown, invalidatedBy: string[]): void {
+    const ttlMs = this.ttlFor(parts.tool);
+    if (ttlMs <= 0) {
+      return;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: Date.now() + ttlMs,
+      tool: parts.tool,
+      profileId: parts.profileId,
+      baseUrl: normalizeBaseUrl(parts.baseUrl),
+      invalidatedBy: [parts.endpoint, ...invalidatedBy],
+    });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /** Drops entries a write to `endpoint` on `baseUrl` may have changed. */
+  invalidateForWrite(baseUrl: string, endpoint: string): number {
+    const normalizedBaseUrl = normalizeBaseUrl(baseUrl);
+    return this.deleteWhere(
+      (entry) =>
+        entry.baseUrl === normalizedBaseUrl && matchesAnyGlob(entry.invalidatedBy, endpoint, true)
+    );
+  }
+
+  clear(filter: CacheFilter = {}): number {
+    return this.deleteWhere(
+      (entry) =>
+        (!filter.tool || entry.tool === filter.tool) &&
+        (!filter.profileId || entry.profileId === filter.profileId)
+    );
+  }
+
+  status(): ResponseCacheStatus {
+    return {
+      entries: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  private deleteWhere(predicate: (entry: CacheEntry) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (predicate(entry)) {
+        this.entries.delete(key);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+}
+
+let sharedCache: ResponseCache | null | undefined;
+
+/** Parses `tool=seconds` pairs, e.g. `saviynt_list_roles=120,saviynt_get_system_config=0`. */
+function parseToolTtls(value: string | undefined): Record<string, number> {
+  const ttls: Record<string, number> = {};
+  for (const item of (value || "").split(",")) {
+    const [tool, seconds] = item.split("=").map((part) => part.trim());
+    const parsed = Number.parseInt(seconds || "", 10);
+    if (!tool || !Number.isFinite(parsed) || parsed < 0) {
+      continue;
+    }
+    ttls[tool] = parsed * 1000;
+  }
+  return ttls;
+}
+
+/**
+ * Process-wide cache from SAVIYNT_CACHE_TTL_SECONDS, SAVIYNT_CACHE_TTLS and
+ * SAVIYNT_CACHE_MAX_ENTRIES. SAVIYNT_CACHE=false disables it.
+ */
+export function getResponseCacheFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): ResponseCache | null {
+  if (sharedCache !== undefined) {
+    return sharedCache;
+  }
+  if (env.SAVIYNT_CACHE?.toLowerCase() === "false") {
+    sharedCache = null;
+    return sharedCache;
+  }
+  sharedCache = new ResponseCache(
+    positiveIntFromEnv(env.SAVIYNT_CACHE_TTL_SECONDS, DEFAULT_TTL_SECONDS) * 1000,
+    parseToolTtls(env.SAVIYNT_CACHE_TTLS),
+    positiveIntFromEnv(env.SAVIYNT_CACHE_MAX_ENTRIES, DEFAULT_MAX_ENTRIES)
+  );
+  return sharedCache;
+}
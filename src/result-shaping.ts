@@ -0,0 +1,207 @@
+import { findItemsKey } from "./pagination.js";
+import { isRecord, type JsonObject } from "./utils.js";
+
+export const WHERE_OPERATORS = [
+  "eq",
+  "ne",
+  "contains",
+  "startsWith",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "exists",
+] as const;
+
+export type WhereOperator = (typeof WHERE_OPERATORS)[number];
+
+export interface WhereClause {
+  /** JSON path relative to each row, e.g. `status` or `$.owner.username`. */
+  path: string;
+  op?: WhereOperator;
+  value?: unknown;
+}
+
+export interface ResultShape {
+  /** Row paths to keep; each becomes a key named after the path. */
+  fields?: string[];
+  /** All clauses must match for a row to be kept. */
+  where?: WhereClause[];
+  /** Row paths, `-` prefix for descending. */
+  sort?: string[];
+}
+
+type PathSegment = string | number;
+
+/** Parses `$.a.b[0].c`, `a.b.0.c` or `a["b c"]` into segments. */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  const pattern = /\.?([^.[\]]+)|\[(\d+)\]|\[["']([^"']*)["']\]/gy;
+  const source = path.trim().replace(/^\$\.?/, "");
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+  while (consumed < source.length && (match = pattern.exec(source)) !== null) {
+    consumed = pattern.lastIndex;
+    if (match[1] !== undefined) {
+      segments.push(/^\d+$/.test(match[1]) ? Number(match[1]) : match[1]);
+    } else if (match[2] !== undefined) {
+      segments.push(Number(match[2]));
+    } else {
+      segments.push(match[3]);
+    }
+  }
+  if (consumed !== source.length || segments.length === 0) {
+    throw new Error(`Invalid JSON path '${path}'.`);
+  }
+  return segments;
+}
+
+export function readPath(value: unknown, segments: PathSegment[]): unknown {
+  let current = value;
+  for (const segment of segments) {
+    if (typeof segment === "number" && Array.isArray(current)) {
+      current = current[segment];
+    } else if (isRecord(current)) {
+      current = current[String(segment)];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function asComparable(value: unknown): number | string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === "number") {
+    return value;
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  const numeric = Number(text);
+  return text.trim() !== "" && Number.isFinite(numeric) ? numeric : text;
+}
+
+/** Numbers compare numerically, anything else as case-insensitive text. */
+function compare(left: unknown, right: unknown): number {
+  const a = asComparable(left);
+  const b = asComparable(right);
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  return String(a ?? "").localeCompare(String(b ?? ""), undefined, { sensitivity: "base" });
+}
+
+function matches(row: unknown, clause: WhereClause, segments: PathSegment[]): boolean {
+  const actual = readPath(row, segments);
+  const op = clause.op || "eq";
+  if (op === "exists") {
+    const present = actual !== undefined && actual !== null;
+    return clause.value === false ? !present : present;
+  }
+  if (actual === undefined || actual === null) {
+    return op === "ne";
+  }
+  switch (op) {
+    case "eq":
+      return compare(actual, clause.value) === 0;
+    case "ne":
+      return compare(actual, clause.value) !== 0;
+    case "contains":
+      return String(actual).toLowerCase().includes(String(clause.value ?? "").toLowerCase());
+    case "startsWith":
+      return String(actual).toLowerCase().startsWith(String(clause.value ?? "").toLowerCase());
+    case "gt":
+      return compare(actual, clause.value) > 0;
+    case "gte":
+      return compare(actual, clause.value) >= 0;
+    case "lt":
+      return compare(actual, clause.value) < 0;
+    case "lte":
+      return compare(actual, clause.value) <= 0;
+    case "in":
+      return (
+        Array.isArray(clause.value) && clause.value.some((item) => compare(actual, item) === 0)
+      );
+  }
+}
+
+/** Applies `where` and `sort` to the rows of a result. */
+export function filterRows(rows: unknown[], shape: ResultShape): unknown[] {
+  let result = rows;
+  if (shape.where?.length) {
+    const clauses = shape.where.map((clause) => ({ clause, segments: parsePath(clause.path) }));
+    result = result.filter((row) =>
+      clauses.every(({ clause, segments }) => matches(row, clause, segments))
+    );
+  }
+  if (shape.sort?.length) {
+    const keys = shape.sort.map((key) => ({
+      descending: key.startsWith("-"),
+      segments: parsePath(key.replace(/^[-+]/, "")),
+    }));
+    result = [...result].sort((left, right) => {
+      for (const { descending, segments } of keys) {
+        const a = readPath(left, segments);
+        const b = readPath(right, segments);
+        // Missing values sort last in either direction.
+        if ((a === undefined || a === null) !== (b === undefined || b === null)) {
+          return a === undefined || a === null ? 1 : -1;
+        }
+        const order = compare(a, b);
+        if (order !== 0) {
+          return descending ? -order : order;
+        }
+      }
+      return 0;
+    });
+  }
+  return result;
+}
+
+/** Keeps only `fields` of a row, keyed by the path as written. */
+export function projectRow(row: unknown, fields: string[]): JsonObject {
+  const projected: JsonObject = {};
+  for (const field of fields) {
+    const value = readPath(row, parsePath(field));
+    if (value !== undefined) {
+      projected[field.trim().replace(/^\$\./, "")] = value;
+    }
+  }
+  return projected;
+}
+
+/**
+ * Replaces the row array of a result (the value itself, or its collection
+ * key) with `update(rows)`. A record without rows counts as a single row, and
+ * becomes `null` when `update` drops it.
+ */
+export function mapRows(value: unknown, update: (rows: unknown[]) => unknown[]): unknown {
+  if (Array.isArray(value)) {
+    return update(value);
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+  const itemsKey = findItemsKey(value);
+  if (itemsKey) {
+    return { ...value, [itemsKey]: update(value[itemsKey] as unknown[]) };
+  }
+  return update([value])[0] ?? null;
+}
+
+/** Applies `where`, `sort` and then `fields` to the rows of a result. */
+export function shapeResult(value: unknown, shape: ResultShape): unknown {
+  const filtered = mapRows(value, (rows) => filterRows(rows, shape));
+  const fields = shape.fields;
+  if (!fields?.length) {
+    return filtered;
+  }
+  return mapRows(filtered, (rows) => rows.map((row) => projectRow(row, fields)));
+}
+
+/** True when any shaping argument was given. */
+export function hasShape(shape: ResultShape): boolean {
+  return Boolean(shape.fields?.length || shape.where?.length || shape.sort?.length);
+}
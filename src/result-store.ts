@@ -0,0 +1,289 @@
+import { randomBytes } from "node:crypto";
+import { extractPage } from "./pagination.js";
+import { asJsonText, isRecord, positiveIntFromEnv } from "./utils.js";
+
+const DEFAULT_TTL_SECONDS = 1800;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_PAGE_ROWS = 100;
+const DEFAULT_PREVIEW_ROWS = 5;
+
+export const RESULT_URI_SCHEME = "saviynt-result:";
+
+export interface ResultStoreOptions {
+  ttlMs: number;
+  /** Memory held by results (JSON text plus rows) before the oldest are evicted. */
+  maxBytes: number;
+  pageRows: number;
+  previewRows: number;
+  /** Size of one text chunk; usually the tool result text limit. */
+  chunkChars: number;
+  /**
+   * Results stay in this process while later requests may reach another
+   * instance (serverless without a shared backend). Summaries then warn that
+   * the link can fail.
+   */
+  instanceLocal?: boolean;
+}
+
+/** A stored result without its content, enough to list it. */
+export interface StoredResultInfo {
+  id: string;
+  tool: string;
+  /** Caller that produced the result; only it may read it back. */
+  owner?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface StoredResult extends StoredResultInfo {
+  text: string;
+  rows?: unknown[];
+}
+
+/**
+ * Where stored results are kept. The default holds them in process memory;
+ * RedisStore implements it so any instance can read a result another stored.
+ */
+export interface ResultBackend {
+  saveResult(stored: StoredResult): Promise<void>;
+  loadResult(id: string): Promise<StoredResult | undefined>;
+  listResults(owner?: string): Promise<StoredResultInfo[]>;
+}
+
+/** What a tool returns instead of an oversized payload. */
+export interface StoredResultSummary {
+  resourceUri: string;
+  tool: string;
+  totalChars: number;
+  chunkCount: number;
+  chunkUriTemplate: string;
+  rowCount: number | null;
+  totalCount: number | null;
+  pageRows: number | null;
+  pageCount: number | null;
+  pageUriTemplate: string | null;
+  keys: string[];
+  preview: unknown[];
+  expiresAt: string;
+  warning?: string;
+}
+
+/** The row array of a result, or undefined when it has none. */
+export function rowsOf(value: unknown): unknown[] | undefined {
+  const page = extractPage(value);
+  return Array.isArray(value) || page.items.length > 0 ? page.items : undefined;
+}
+
+export function parseStoredResultInfo(value: unknown): StoredResultInfo | null {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.tool !== "string" ||
+    typeof value.createdAt !== "number" ||
+    typeof value.expiresAt !== "number"
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    tool: value.tool,
+    owner: typeof value.owner === "string" ? value.owner : undefined,
+    createdAt: value.createdAt,
+    expiresAt: value.expiresAt,
+  };
+}
+
+function sizeOf(stored: StoredResult): number {
+  const rowBytes = stored.rows ? Buffer.byteLength(JSON.stringify(stored.rows), "utf8") : 0;
+  return Buffer.byteLength(stored.text, "utf8") + rowBytes;
+}
+
+/** Process-memory backend, evicting the oldest results beyond `maxBytes`. */
+export class MemoryResultBackend implements ResultBackend {
+  private readonly results = new Map<string, { stored: StoredResult; bytes: number }>();
+  private totalBytes = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  async saveResult(stored: StoredResult): Promise<void> {
+    this.prune();
+    // Rows are kept next to the text, so both count against the limit.
+    const bytes = sizeOf(stored);
+    this.results.set(stored.id, { stored, bytes });
+    this.totalBytes += bytes;
+    while (this.totalBytes > this.maxBytes && this.results.size > 1) {
+      this.remove(this.results.keys().next().value as string);
+    }
+  }
+
+  async loadResult(id: string): Promise<StoredResult | undefined> {
+    this.prune();
+    return this.results.get(id)?.stored;
+  }
+
+  async listResults(owner?: string): Promise<StoredResultInfo[]> {
+    this.prune();
+    return Array.from(this.results.values())
+      .map((entry) => entry.stored)
+      .filter((stored) => stored.owner === owner);
+  }
+
+  /** Bytes currently held, text and rows together. */
+  get size(): number {
+    return this.totalBytes;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.results) {
+      if (entry.stored.expiresAt <= now) {
+        this.remove(id);
+      }
+    }
+  }
+
+  private remove(id: string): void {
+    const entry = this.results.get(id);
+    if (entry) {
+      this.totalBytes -= entry.bytes;
+      this.results.delete(id);
+    }
+  }
+}
+
+/**
+ * Keeps tool results that are too large to return inline, so agents can read
+ * them back through `resources/read` by text chunk or by page of rows.
+ * Results live in the backend until they expire or are evicted.
+ */
+export class ResultStore {
+  constructor(
+    readonly options: ResultStoreOptions,
+    private readonly backend: ResultBackend = new MemoryResultBackend(options.maxBytes)
+  ) {}
+
+  async put(tool: string, value: unknown, owner?: string): Promise<StoredResult> {
+    const now = Date.now();
+    const stored: StoredResult = {
+      id: randomBytes(16).toString("base64url"),
+      tool,
+      owner,
+      createdAt: now,
+      expiresAt: now + this.options.ttlMs,
+      text: asJsonText(value),
+      rows: rowsOf(value),
+    };
+    await this.backend.saveResult(stored);
+    return stored;
+  }
+
+  /** The result if it exists, has not expired and belongs to `owner`. */
+  async get(id: string, owner?: string): Promise<StoredResult | undefined> {
+    const stored = await this.backend.loadResult(id);
+    return stored && stored.owner === owner && stored.expiresAt > Date.now() ? stored : undefined;
+  }
+
+  async list(owner?: string): Promise<StoredResultInfo[]> {
+    const now = Date.now();
+    return (await this.backend.listResults(owner)).filter((stored) => stored.expiresAt > now);
+  }
+
+  uri(stored: StoredResultInfo): string {
+    return `${RESULT_URI_SCHEME}//${stored.id}`;
+  }
+
+  chunkCount(stored: StoredResult): number {
+    return Math.max(1, Math.ceil(stored.text.length / this.options.chunkChars));
+  }
+
+  pageCount(stored: StoredResult): number {
+    return Math.max(1, Math.ceil((stored.rows?.length ?? 0) / this.options.pageRows));
+  }
+
+  /** Text chunk `index` (1-based) of the serialized result. */
+  chunk(stored: StoredResult, index: number): string | undefined {
+    if (!Number.isInteger(index) || index < 1 || index > this.chunkCount(stored)) {
+      return undefined;
+    }
+    const start = (index - 1) * this.options.chunkChars;
+    return stored.text.slice(start, start + this.options.chunkChars);
+  }
+
+  /** Rows of page `index` (1-based), or undefined for results without rows. */
+  page(stored: StoredResult, index: number): unknown[] | undefined {
+    if (!stored.rows || !Number.isInteger(index) || index < 1 || index > this.pageCount(stored)) {
+      return undefined;
+    }
+    const start = (index - 1) * this.options.pageRows;
+    return stored.rows.slice(start, start + this.options.pageRows);
+  }
+
+  summarize(stored: StoredResult, value: unknown): StoredResultSummary {
+    const uri = this.uri(stored);
+    const page = extractPage(value);
+    const keys = isRecord(value)
+      ? Object.keys(value)
+      : isRecord(stored.rows?.[0])
+        ? Object.keys(stored.rows[0])
+        : [];
+    return {
+      resourceUri: uri,
+      tool: stored.tool,
+      totalChars: stored.text.length,
+      chunkCount: this.chunkCount(stored),
+      chunkUriTemplate: `${uri}/chunks/{chunk}`,
+      rowCount: stored.rows ? stored.rows.length : null,
+      totalCount: page.total ?? null,
+      pageRows: stored.rows ? this.options.pageRows : null,
+      pageCount: stored.rows ? this.pageCount(stored) : null,
+      pageUriTemplate: stored.rows ? `${uri}/rows/{page}` : null,
+      keys: keys.slice(0, 50),
+      preview: (stored.rows || []).slice(0, this.options.previewRows),
+      expiresAt: new Date(stored.expiresAt).toISOString(),
+      ...(this.options.instanceLocal
+        ? {
+            warning:
+              "This result is held by one server instance and a later request may reach another. If reading the link fails, call the tool again with paging (pageSize, maxPages, cursor) or fields to get a smaller result.",
+          }
+        : {}),
+    };
+  }
+}
+
+let sharedStore: ResultStore | null | undefined;
+
+/**
+ * Process-wide store from SAVIYNT_RESULT_TTL_SECONDS, SAVIYNT_RESULT_MAX_BYTES,
+ * SAVIYNT_RESULT_PAGE_ROWS and SAVIYNT_RESULT_PREVIEW_ROWS, shared so a result
+ * stored during one stateless request can be read in the next. `backend` (the
+ * Redis store) makes results readable from every instance; without it they
+ * stay in process memory.
+ * SAVIYNT_RESULT_SPILL=false disables it and oversized results are truncated.
+ */
+export function getResultStoreFromEnvironment(
+  chunkChars: number,
+  env: NodeJS.ProcessEnv = process.env,
+  backend?: ResultBackend
+): ResultStore | null {
+  if (sharedStore !== undefined) {
+    return sharedStore;
+  }
+  if (env.SAVIYNT_RESULT_SPILL?.toLowerCase() === "false") {
+    sharedStore = null;
+    return sharedStore;
+  }
+  const maxBytes = positiveIntFromEnv(env.SAVIYNT_RESULT_MAX_BYTES, DEFAULT_MAX_BYTES);
+  sharedStore = new ResultStore(
+    {
+      ttlMs: positiveIntFromEnv(env.SAVIYNT_RESULT_TTL_SECONDS, DEFAULT_TTL_SECONDS) * 1000,
+      maxBytes,
+      pageRows: positiveIntFromEnv(env.SAVIYNT_RESULT_PAGE_ROWS, DEFAULT_PAGE_ROWS),
+      previewRows: positiveIntFromEnv(env.SAVIYNT_RESULT_PREVIEW_ROWS, DEFAULT_PREVIEW_ROWS),
+      chunkChars,
+      // Vercel spreads stateless requests over instances that share no memory.
+      instanceLocal: !backend && Boolean(env.VERCEL),
+    },
+    backend ?? new MemoryResultBackend(maxBytes)
+  );
+  return sharedStore;
+}
@@ -0,0 +1,174 @@
+import { positiveIntFromEnv } from "./utils.js";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 250;
+const DEFAULT_MAX_DELAY_MS = 5000;
+/** Matches `maxDuration` for api/server.ts in vercel.json. */
+const DEFAULT_MAX_DURATION_SECONDS = 60;
+/** Time kept back from the duration so the tool can still answer. */
+const DEFAULT_DURATION_RESERVE_MS = 5000;
+
+export interface RetryPolicy {
+  /** Per-attempt timeout, including reading the body. */
+  timeoutMs: number;
+  /** Retries after the first attempt. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Time a tool call may spend on Saviynt requests in total. */
+  budgetMs: number;
+}
+
+export interface RetryRequest {
+  /** Safe to resend after a 5xx, timeout or network error. */
+  idempotent: boolean;
+  /** Epoch ms after which no attempt is started and no wait is scheduled. */
+  deadline: number;
+  /** Waits for permission to send one attempt; returns the matching release. */
+  throttle?: () => Promise<() => void>;
+  /** Cancellation of the whole request: aborts the attempt in flight and skips any retry. */
+  signal?: AbortSignal;
+}
+
+export interface RetryResponse<T> {
+  response: Response;
+  body: T;
+  retries: number;
+}
+
+export class RequestTimeoutError extends Error {}
+
+export class RequestCancelledError extends Error {}
+
+/** Parses a `Retry-After` header (delta-seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function isRetryableStatus(status: number, idempotent: boolean): boolean {
+  // 429 means the request was not processed, so any method may be resent.
+  return status === 429 || (idempotent && status >= 500 && status <= 599);
+}
+
+/** Exponential backoff with full jitter. */
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/** Waits `ms`, or less when `signal` aborts first. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Sends a request with a per-attempt timeout and retries 429s, and for
+ * idempotent requests 5xx responses, timeouts and network errors. `read`
+ * consumes the body inside the same timeout. When the retries or the deadline
+ * run out, the last response is returned or the last error thrown. Aborting
+ * `request.signal` stops it at once with a RequestCancelledError.
+ */
+export async function fetchWithRetry<T>(
+  url: string,
+  init: RequestInit,
+  policy: RetryPolicy,
+  request: RetryRequest,
+  read: (response: Response) => Promise<T>
+): Promise<RetryResponse<T>> {
+  const method = init.method || "GET";
+  const cancelled = (): RequestCancelledError =>
+    new RequestCancelledError(`${method} ${new URL(url).pathname} was cancelled.`);
+  for (let attempt = 0; ; attempt += 1) {
+    if (request.signal?.aborted) {
+      throw cancelled();
+    }
+    const remainingMs = request.deadline - Date.now();
+    if (remainingMs <= 0) {
+      throw new RequestTimeoutError(
+        `Deadline reached before ${method} ${new URL(url).pathname} could be sent.`
+      );
+    }
+
+    const release = request.throttle ? await request.throttle() : undefined;
+    const timeoutMs = Math.min(policy.timeoutMs, Math.max(1, request.deadline - Date.now()));
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let result: RetryResponse<T> | undefined;
+    let failure: unknown;
+    try {
+      const signal = request.signal
+        ? AbortSignal.any([controller.signal, request.signal])
+        : controller.signal;
+      const response = await fetch(url, { ...init, signal });
+      result = { response, body: await read(response), retries: attempt };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw cancelled();
+      }
+      failure = controller.signal.aborted
+        ? new RequestTimeoutError(
+            `${method} ${new URL(url).pathname} timed out after ${timeoutMs}ms.`
+          )
+        : error;
+    } finally {
+      clearTimeout(timer);
+      release?.();
+    }
+
+    const retryable = result
+      ? isRetryableStatus(result.response.status, request.idempotent)
+      : request.idempotent;
+    if (!retryable || attempt >= policy.maxRetries) {
+      if (result) {
+        return result;
+      }
+      throw failure;
+    }
+
+    const retryAfterMs = result
+      ? parseRetryAfter(result.response.headers.get("retry-after"))
+      : undefined;
+    const delayMs = retryAfterMs ?? backoffDelay(policy, attempt);
+    if (Date.now() + delayMs >= request.deadline) {
+      if (result) {
+        return result;
+      }
+      throw failure;
+    }
+    await sleep(delayMs, request.signal);
+  }
+}
+
+export function getRetryPolicyFromEnvironment(env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+  const maxRetries = Number.parseInt(env.SAVIYNT_HTTP_MAX_RETRIES || "", 10);
+  const durationMs =
+    positiveIntFromEnv(env.SAVIYNT_MAX_DURATION_SECONDS, DEFAULT_MAX_DURATION_SECONDS) * 1000;
+  const reserveMs = positiveIntFromEnv(
+    env.SAVIYNT_DURATION_RESERVE_MS,
+    DEFAULT_DURATION_RESERVE_MS
+  );
+  return {
+    timeoutMs: positiveIntFromEnv(env.SAVIYNT_HTTP_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+    maxRetries: Number.isFinite(maxRetries) && maxRetries >= 0 ? maxRetries : DEFAULT_MAX_RETRIES,
+    baseDelayMs: positiveIntFromEnv(env.SAVIYNT_HTTP_RETRY_BASE_MS, DEFAULT_BASE_DELAY_MS),
+    maxDelayMs: positiveIntFromEnv(env.SAVIYNT_HTTP_RETRY_MAX_MS, DEFAULT_MAX_DELAY_MS),
+    budgetMs: Math.max(1000, durationMs - reserveMs),
+  };
+}
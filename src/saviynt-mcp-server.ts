@@ -1,24 +1,121 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ListResourcesResult,
+  ReadResourceResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
 import { AsyncLocalStorage } from "node:async_hooks";
 import * as z from "zod/v4";
+import { getAccessPolicyFromEnvironment, type AccessPolicy } from "./access-policy.js";
+import {
+  getAuditLogFromEnvironment,
+  redactArgs,
+  type AuditApiCall,
+  type AuditLog,
+  type AuditStatus,
+} from "./audit.js";
+import { runBatch } from "./batch.js";
+import { ConfirmationTokens } from "./confirmation.js";
+import { getCredentialKeyringFromEnvironment, type Keyring } from "./crypto.js";
+import {
+  EXPORT_MIME_TYPES,
+  inferColumns,
+  projectRecords,
+  renderExport,
+  type ExportColumn,
+  type ExportFormat,
+} from "./export.js";
+import { callerFromAuthInfo, type CallerIdentity } from "./inbound-auth.js";
+import {
+  accountSchema,
+  accessRequestSchema,
+  campaignSchema,
+  endpointSchema,
+  entitlementSchema,
+  findRecord,
+  listOutputShape,
+  normalizeAccessRequest,
+  normalizeAccessRequestDetail,
+  normalizeAccount,
+  normalizeCampaign,
+  normalizeEndpoint,
+  normalizeEntitlement,
+  normalizeItems,
+  normalizeList,
+  normalizeRole,
+  normalizeUser,
+  normalizeUserResponse,
+  pick,
+  roleSchema,
+  userOutputShape,
+  userSchema,
+} from "./models.js";
+import {
+  decodeCursor,
+  DEFAULT_MAX_PAGES,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+  extractPage,
+  paginate,
+} from "./pagination.js";
+import { getOpenApiOperationsFromEnvironment, type OpenApiOperation } from "./openapi-tools.js";
+import { registerWorkflowPrompts } from "./prompts.js";
+import { getRateLimiterFromEnvironment, type RateLimiter } from "./rate-limit.js";
+import { isTerminalStatus, waitForRequest } from "./request-tracking.js";
+import {
+  getResponseCacheFromEnvironment,
+  ResponseCache,
+  type CacheKeyParts,
+} from "./response-cache.js";
+import {
+  filterRows,
+  hasShape,
+  mapRows,
+  shapeResult,
+  WHERE_OPERATORS,
+  type ResultShape,
+  type WhereClause,
+} from "./result-shaping.js";
+import {
+  getResultStoreFromEnvironment,
+  RESULT_URI_SCHEME,
+  type ResultStore,
+  type StoredResult,
+} from "./result-store.js";
+import { fetchWithRetry, getRetryPolicyFromEnvironment, type RetryPolicy } from "./retry.js";
+import {
+  evaluateSod,
+  getSodRulesFromEnvironment,
+  type SodEntitlement,
+  type SodRule,
+} from "./sod.js";
+import {
+  getStoresFromEnvironment,
+  type ProfileStore,
+  type SaviyntProfileState,
+  type SaviyntTokenState,
+  type TokenStore,
+} from "./stores.js";
+import {
+  asBoolean,
+  asJsonText,
+  asNumber,
+  asObject,
+  asString,
+  isRecord,
+  normalizeBaseUrl,
+  positiveIntFromEnv,
+  toErrorMessage,
+  truncate,
+  type JsonObject,
+} from "./utils.js";
+import { V5_PAYLOAD_SCHEMAS } from "./v5-payloads.js";
+import { getWritePolicyFromEnvironment, type WritePolicy } from "./write-policy.js";
 
 type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
-type JsonObject = Record<string, unknown>;
-
-interface SaviyntProfileState {
-  profileId: string;
-  username: string;
-  password: string;
-  baseUrl: string;
-  source: "session" | "env";
-  updatedAt: number;
-}
-
-interface SaviyntTokenState {
-  bearerToken?: string;
-  tokenExpiresAt?: number;
-}
 
 interface ApiRequestOptions {
   endpoint: string;
@@ -34,95 +131,205 @@ interface ApiRequestOptions {
 export interface CreateSaviyntServerOptions {
   defaultBaseUrl?: string;
   enableWrites?: boolean;
+  /** External profile persistence. Defaults to the store selected by SAVIYNT_STORE. */
+  profileStore?: ProfileStore;
+  /** External bearer token persistence. Defaults to the store selected by SAVIYNT_STORE. */
+  tokenStore?: TokenStore;
+  /** Keys used to seal profile passwords. Defaults to SAVIYNT_CREDENTIAL_KEYS. */
+  credentialKeyring?: Keyring;
+  /**
+   * Keep profiles, tokens and the active profile inside this server instance
+   * only. Stateful HTTP sessions use this so one session never sees another's
+   * profiles; external stores are ignored.
+   */
+  sessionScoped?: boolean;
+  /**
+   * Scope an authenticated caller needs for write tools. Defaults to
+   * SAVIYNT_MCP_WRITE_SCOPE or `saviynt:write`.
+   */
+  writeScope?: string;
+  /**
+   * Scope an authenticated caller needs to read other callers' audit records.
+   * Defaults to SAVIYNT_MCP_AUDIT_SCOPE or `saviynt:audit`.
+   */
+  auditScope?: string;
+  /**
+   * Caller-to-profile/tool policy. Defaults to SAVIYNT_MCP_POLICY_FILE; `null`
+   * disables policy checks.
+   */
+  accessPolicy?: AccessPolicy | null;
+  /**
+   * Per tool/method/endpoint/profile write rules. Defaults to
+   * SAVIYNT_WRITE_POLICY_FILE; when set it replaces `enableWrites`.
+   */
+  writePolicy?: WritePolicy | null;
+  /**
+   * Require a preview and signed confirmation token before destructive writes.
+   * Defaults to true unless SAVIYNT_CONFIRM_WRITES=false.
+   */
+  confirmWrites?: boolean;
+  /** Treat every write as a dry run. Defaults to SAVIYNT_DRY_RUN=true. */
+  dryRun?: boolean;
+  /** Tool call audit trail. Defaults to the sinks in SAVIYNT_AUDIT_SINKS; `null` disables it. */
+  auditLog?: AuditLog | null;
+  /** Timeouts, retries and the per-call time budget. Defaults to the SAVIYNT_HTTP_* settings. */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Per profile/base URL request rate and concurrency limits. Defaults to the
+   * process-wide SAVIYNT_RATE_LIMIT_* limiter; `null` disables limiting.
+   */
+  rateLimiter?: RateLimiter | null;
+  /**
+   * Cache for read-only lookups. Defaults to the process-wide cache configured
+   * by SAVIYNT_CACHE_*; `null` disables caching.
+   */
+  responseCache?: ResponseCache | null;
+  /**
+   * Where oversized results are kept for `resources/read`. Defaults to the
+   * process-wide store configured by SAVIYNT_RESULT_*; `null` truncates instead.
+   */
+  resultStore?: ResultStore | null;
+  /** Tools generated from an OpenAPI spec. Defaults to SAVIYNT_OPENAPI_SPEC. */
+  openApiOperations?: OpenApiOperation[];
+  /** Local segregation-of-duties ruleset. Defaults to SAVIYNT_SOD_RULES_FILE. */
+  sodRules?: SodRule[] | null;
+}
+
+interface CacheToolOptions {
+  /** Endpoint patterns (`*` wildcards, any case) whose writes invalidate the tool's entries. */
+  invalidatedBy: string[];
 }
 
+interface ToolCallContext {
+  profileId?: string;
+  /** Authenticated MCP caller; undefined when inbound auth is disabled. */
+  caller?: CallerIdentity;
+  /** Registered name of the tool being called. */
+  toolName?: string;
+  /** Set by ensureWritesEnabled; Saviynt calls are then checked against the write policy. */
+  writes?: boolean;
+  /** Destructive tool: writes need a confirmation token from a previous preview call. */
+  requiresConfirmation?: boolean;
+  confirmationToken?: string;
+  /** Set once the confirmation token was consumed, so retries of the write are not rechecked. */
+  confirmed?: boolean;
+  /** Build and return write requests instead of sending them. */
+  dryRun?: boolean;
+  /** Saviynt requests made so far, for the audit record. */
+  apiCalls?: AuditApiCall[];
+  /**
+   * Epoch ms by which every Saviynt request of this call must finish. Set once
+   * when the call starts and shared by logins, retries and follow-up requests.
+   */
+  deadline: number;
+  /** Set for cached read tools; their Saviynt responses are served from the response cache. */
+  cache?: CacheToolOptions;
+  /** Skip cached entries for this call; the fresh response still refreshes the cache. */
+  bypassCache?: boolean;
+  /** Aborted when the client cancels the call. */
+  signal?: AbortSignal;
+  /** Sends an MCP progress notification; set only when the client asked for progress. */
+  reportProgress?: (progress: number, message: string) => Promise<void>;
+}
+
+type ToolHandler = (args: JsonObject, context: ToolCallContext) => Promise<CallToolResult>;
+
+type ResourceExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type SealedCredential = Pick<SaviyntProfileState, "sealedPassword" | "passwordFingerprint">;
+type ProfileInput = Omit<SaviyntProfileState, "updatedAt">;
+
 const LOGIN_ENDPOINTS = ["/ECM/api/login", "/ECM/api/v1/token"];
 const WRITE_METHODS = new Set<HttpMethod>(["POST", "PUT", "PATCH", "DELETE"]);
+const IDEMPOTENT_METHODS = new Set<HttpMethod>(["GET", "PUT", "DELETE"]);
+const CACHE_APPLICATIONS: CacheToolOptions = {
+  invalidatedBy: ["*application*", "*endpoint*", "*securitysystem*"],
+};
+const CACHE_ENDPOINTS: CacheToolOptions = { invalidatedBy: ["*endpoint*", "*securitysystem*"] };
+const CACHE_SYSTEM_CONFIG: CacheToolOptions = { invalidatedBy: ["*config*"] };
+const CACHE_ROLES: CacheToolOptions = { invalidatedBy: ["*role*"] };
 const TEXT_CONTENT = "text" as const;
+const ENTITY_URI_SCHEME = "saviynt:";
+// Record fields that identify an entity in Saviynt list responses; the first is used in URIs.
+const APPLICATION_KEYS = ["applicationname", "name", "applicationkey", "appid", "id"];
+const ENDPOINT_KEYS = ["endpointname", "endpoint", "name", "endpointkey", "id"];
+const ACCESS_REQUEST_KEYS = ["requestid", "requestkey", "id"];
 const DEFAULT_MAX_RESULT_TEXT_CHARS = 20000;
 const DEFAULT_MAX_STRUCTURED_CONTENT_CHARS = 4000;
 const DEFAULT_PROFILE_ID = "default";
+const DEFAULT_WRITE_SCOPE = "saviynt:write";
+const DEFAULT_AUDIT_SCOPE = "saviynt:audit";
+const DEFAULT_CONFIRMATION_TTL_SECONDS = 300;
+const DEFAULT_EXPORT_PAGE_SIZE = 200;
+const DEFAULT_EXPORT_MAX_PAGES = 50;
+const DEFAULT_EXPORT_MAX_CHARS = 1_000_000;
+const DEFAULT_BATCH_MAX_REQUESTS = 50;
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const DEFAULT_BATCH_MAX_ERRORS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REQUEST_POLL_SECONDS = 5;
+const MAX_REQUEST_POLL_INTERVAL_MS = 30000;
+const REDACTED = "[REDACTED]";
 const ENV_PROFILE_ID = "env-default";
 
 class LoginRequiredError extends Error {}
 
-function isRecord(value: unknown): value is JsonObject {
-  return typeof value === "object" && value !== null && !Array.isArray(value);
-}
-
-function toErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
+class PolicyDeniedError extends Error {
+  constructor(
+    message: string,
+    readonly details: JsonObject
+  ) {
+    super(message);
   }
-  return String(error);
 }
 
-function asString(value: unknown): string | undefined {
-  if (typeof value !== "string") {
-    return undefined;
+class ConfirmationRequiredError extends Error {
+  constructor(readonly preview: JsonObject) {
+    super("Confirmation required");
   }
-  const trimmed = value.trim();
-  return trimmed.length > 0 ? trimmed : undefined;
 }
 
-function asNumber(value: unknown): number | undefined {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
+class DryRunCompletedError extends Error {
+  constructor(readonly request: JsonObject) {
+    super("Dry run completed");
   }
-  return undefined;
-}
-
-function asBoolean(value: unknown): boolean | undefined {
-  if (typeof value === "boolean") {
-    return value;
-  }
-  return undefined;
-}
-
-function asObject(value: unknown): JsonObject | undefined {
-  return isRecord(value) ? value : undefined;
-}
-
-function normalizeBaseUrl(url: string): string {
-  return url.replace(/\/+$/, "");
 }
 
 function normalizeApiPath(path: string): string {
   return path.replace(/^\/+|\/+$/g, "");
 }
 
-function positiveIntFromEnv(value: string | undefined, fallback: number): number {
-  const parsed = Number.parseInt(value || "", 10);
-  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+function maxStructuredContentChars(): number {
+  return positiveIntFromEnv(
+    process.env.SAVIYNT_MAX_STRUCTURED_CONTENT_CHARS,
+    DEFAULT_MAX_STRUCTURED_CONTENT_CHARS
+  );
 }
 
-function truncate(text: string, maxLength = 2000): string {
-  if (text.length <= maxLength) {
-    return text;
-  }
-  return `${text.slice(0, maxLength)}... [truncated]`;
+/** Unrendered value behind a result, so registerTool can re-render it shaped. */
+interface ResultSource {
+  value: unknown;
+  toModel?: (value: unknown) => JsonObject;
 }
 
-function asJsonText(value: unknown): string {
-  if (typeof value === "string") {
-    return value;
-  }
-  try {
-    return JSON.stringify(value, null, 2);
-  } catch {
-    return String(value);
-  }
-}
+const resultSources = new WeakMap<CallToolResult, ResultSource>();
 
-function okResult(value: unknown): CallToolResult {
-  const maxTextChars = positiveIntFromEnv(
+function maxResultTextChars(): number {
+  return positiveIntFromEnv(
     process.env.SAVIYNT_MAX_RESULT_TEXT_CHARS,
     DEFAULT_MAX_RESULT_TEXT_CHARS
   );
-  const maxStructuredChars = positiveIntFromEnv(
-    process.env.SAVIYNT_MAX_STRUCTURED_CONTENT_CHARS,
-    DEFAULT_MAX_STRUCTURED_CONTENT_CHARS
-  );
+}
+
+function okResult(value: unknown): CallToolResult {
+  const response = renderResult(value);
+  resultSources.set(response, { value });
+  return response;
+}
+
+function renderResult(value: unknown): CallToolResult {
+  const maxTextChars = maxResultTextChars();
+  const maxStructuredChars = maxStructuredContentChars();
   const fullText = asJsonText(value);
 
   if (fullText.length > maxTextChars) {
@@ -165,6 +372,58 @@ function okResult(value: unknown): CallToolResult {
   return response;
 }
 
+/**
+ * Result of a tool with an output schema: the text carries the Saviynt payload
+ * like okResult, structuredContent always carries the normalized model. Rows
+ * are dropped from the end of `items` until the model fits the size limit.
+ */
+function modelResult(value: unknown, toModel: (value: unknown) => JsonObject): CallToolResult {
+  const response = renderModelResult(value, toModel(value));
+  resultSources.set(response, { value, toModel });
+  return response;
+}
+
+function renderModelResult(value: unknown, model: JsonObject): CallToolResult {
+  const maxStructuredChars = maxStructuredContentChars();
+  let structured = model;
+  if (Array.isArray(model.items) && asJsonText(model).length > maxStructuredChars) {
+    const items = model.items as unknown[];
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      const candidate = { ...model, items: items.slice(0, middle), truncated: true };
+      if (asJsonText(candidate).length <= maxStructuredChars) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    structured = { ...model, items: items.slice(0, low), truncated: true };
+  }
+  return { content: renderResult(value).content, structuredContent: structured };
+}
+
+/**
+ * Re-renders a result with `where` and `sort` applied to its rows and, in the
+ * text only, `fields`; the normalized model keeps every declared field.
+ */
+function shapedResult(result: CallToolResult, shape: ResultShape): CallToolResult {
+  const source = resultSources.get(result);
+  if (!source) {
+    return result;
+  }
+  const shapedValue = shapeResult(source.value, shape);
+  const shaped = source.toModel
+    ? renderModelResult(
+        shapedValue,
+        source.toModel(mapRows(source.value, (rows) => filterRows(rows, shape)))
+      )
+    : renderResult(shapedValue);
+  resultSources.set(shaped, { value: shapedValue });
+  return shaped;
+}
+
 function errorResult(message: string, details?: unknown): CallToolResult {
   const payload: JsonObject = {
     success: false,
@@ -202,6 +461,20 @@ function loginRequiredResult(message: string): CallToolResult {
   };
 }
 
+function confirmationRequiredResult(preview: JsonObject): CallToolResult {
+  const payload: JsonObject = {
+    success: false,
+    confirmationRequired: true,
+    message:
+      "Nothing was sent. Review the preview, then repeat the same call with 'confirmationToken' to execute it.",
+    ...preview,
+  };
+  return {
+    content: [{ type: TEXT_CONTENT, text: asJsonText(payload) }],
+    structuredContent: payload,
+  };
+}
+
 function appendQuery(url: URL, query?: JsonObject): void {
   if (!query) {
     return;
@@ -371,43 +644,192 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
   const defaultApiPath = normalizeApiPath(asString(process.env.SAVIYNT_API_PATH) || "api/v5");
   const writesEnabled =
     options.enableWrites ?? process.env.SAVIYNT_ENABLE_WRITE?.toLowerCase() === "true";
+  const writeScope =
+    options.writeScope || asString(process.env.SAVIYNT_MCP_WRITE_SCOPE) || DEFAULT_WRITE_SCOPE;
+  const auditScope =
+    options.auditScope || asString(process.env.SAVIYNT_MCP_AUDIT_SCOPE) || DEFAULT_AUDIT_SCOPE;
+  const accessPolicy =
+    options.accessPolicy !== undefined ? options.accessPolicy : getAccessPolicyFromEnvironment();
+  const writePolicy =
+    options.writePolicy !== undefined ? options.writePolicy : getWritePolicyFromEnvironment();
+  const localSodRules =
+    options.sodRules !== undefined ? options.sodRules : getSodRulesFromEnvironment();
+  const confirmWrites =
+    options.confirmWrites ?? process.env.SAVIYNT_CONFIRM_WRITES?.toLowerCase() !== "false";
+  const dryRunAllWrites = options.dryRun ?? process.env.SAVIYNT_DRY_RUN?.toLowerCase() === "true";
+  const auditLog = options.auditLog !== undefined ? options.auditLog : getAuditLogFromEnvironment();
+  const retryPolicy = options.retryPolicy ?? getRetryPolicyFromEnvironment();
+  const rateLimiter =
+    options.rateLimiter !== undefined ? options.rateLimiter : getRateLimiterFromEnvironment();
+  const responseCache =
+    options.responseCache !== undefined ? options.responseCache : getResponseCacheFromEnvironment();
+  const environmentStores =
+    options.sessionScoped || options.profileStore || options.tokenStore
+      ? {}
+      : getStoresFromEnvironment();
+  const resultStore =
+    options.resultStore !== undefined
+      ? options.resultStore
+      : getResultStoreFromEnvironment(
+          maxResultTextChars(),
+          process.env,
+          environmentStores.resultBackend
+        );
+  const profileStore = options.sessionScoped
+    ? undefined
+    : (options.profileStore ?? environmentStores.profileStore);
+  const tokenStore = options.sessionScoped
+    ? undefined
+    : (options.tokenStore ?? environmentStores.tokenStore);
+
+  const environmentKeyring = options.credentialKeyring
+    ? { keyring: options.credentialKeyring, persistent: true }
+    : getCredentialKeyringFromEnvironment();
+  const keyring = environmentKeyring.keyring;
+  if (profileStore && !environmentKeyring.persistent) {
+    throw new Error(
+      "A persistent profile store requires SAVIYNT_CREDENTIAL_KEYS so stored passwords can be unsealed by later invocations."
+    );
+  }
+
+  // A per-process key would reject tokens confirmed on another instance.
+  if (confirmWrites && (writesEnabled || writePolicy) && !environmentKeyring.persistent) {
+    throw new Error(
+      "Write confirmation requires SAVIYNT_CREDENTIAL_KEYS so confirmation tokens verify across invocations."
+    );
+  }
+
+  const confirmations = new ConfirmationTokens(
+    keyring,
+    positiveIntFromEnv(
+      process.env.SAVIYNT_CONFIRMATION_TTL_SECONDS,
+      DEFAULT_CONFIRMATION_TTL_SECONDS
+    ) * 1000,
+    tokenStore
+  );
+
+  const sealPassword = (password: string): SealedCredential => ({
+    sealedPassword: keyring.seal(password),
+    passwordFingerprint: keyring.fingerprint(password),
+  });
+
   const serviceUsername = asString(
     process.env.SAVIYNT_SERVICE_USERNAME || process.env.SAVIYNT_USERNAME || ""
   );
-  const servicePassword = asString(
-    process.env.SAVIYNT_SERVICE_PASSWORD || process.env.SAVIYNT_PASSWORD || ""
-  );
+  const serviceCredential = ((): SealedCredential | null => {
+    const password = asString(
+      process.env.SAVIYNT_SERVICE_PASSWORD || process.env.SAVIYNT_PASSWORD || ""
+    );
+    return password ? sealPassword(password) : null;
+  })();
 
   const profiles = new Map<string, SaviyntProfileState>();
   const tokenCache = new Map<string, SaviyntTokenState>();
   let activeProfileId: string | null = null;
-  const toolCallContext = new AsyncLocalStorage<{ profileId?: string }>();
+  const toolCallContext = new AsyncLocalStorage<ToolCallContext>();
+  const pendingStoreWrites = new Set<Promise<void>>();
+
+  // Store writes are queued from the synchronous profile/token helpers and
+  // flushed before each tool call returns.
+  const queueStoreWrite = (write: () => Promise<void>): void => {
+    const pending = write();
+    pendingStoreWrites.add(pending);
+    void pending.catch(() => undefined).finally(() => pendingStoreWrites.delete(pending));
+  };
+
+  const flushStoreWrites = async (): Promise<void> => {
+    if (pendingStoreWrites.size === 0) {
+      return;
+    }
+    const results = await Promise.allSettled(Array.from(pendingStoreWrites));
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+    if (failure) {
+      throw new Error(`Failed to persist auth state: ${toErrorMessage(failure.reason)}`);
+    }
+  };
+
+  const ownerOf = (caller?: CallerIdentity): string | undefined =>
+    caller ? `${caller.authMethod}:${caller.subject}` : undefined;
+
+  const loadFromStores = async (): Promise<void> => {
+    if (profileStore) {
+      const [storedProfiles, storedActiveProfileId] = await Promise.all([
+        profileStore.listProfiles(),
+        profileStore.getActiveProfileId(ownerOf(toolCallContext.getStore()?.caller)),
+      ]);
+      const storedIds = new Set(storedProfiles.map((profile) => profile.profileId));
+      for (const profile of Array.from(profiles.values())) {
+        if (profile.source === "session" && !storedIds.has(profile.profileId)) {
+          profiles.delete(profile.profileId);
+        }
+      }
+      for (const storedProfile of storedProfiles) {
+        let profile = storedProfile;
+        if (keyring.needsReseal(profile.sealedPassword)) {
+          profile = { ...profile, ...sealPassword(keyring.open(profile.sealedPassword)) };
+          const resealed = profile;
+          queueStoreWrite(() => profileStore.saveProfile(resealed));
+        }
+        profiles.set(profile.profileId, profile);
+      }
+      activeProfileId = storedActiveProfileId;
+    }
+
+    if (tokenStore) {
+      const storedTokens = await tokenStore.listTokens();
+      tokenCache.clear();
+      for (const [key, token] of storedTokens) {
+        tokenCache.set(key, token);
+      }
+    }
+  };
+
+  const setActiveProfileId = (profileId: string | null): void => {
+    activeProfileId = profileId;
+    if (profileStore) {
+      const owner = ownerOf(toolCallContext.getStore()?.caller);
+      queueStoreWrite(() => profileStore.setActiveProfileId(profileId, owner));
+    }
+  };
 
   const getTokenCacheKey = (profileId: string, baseUrl: string): string =>
     `${profileId}::${normalizeBaseUrl(baseUrl)}`;
 
+  const setCachedToken = (key: string, token: SaviyntTokenState): void => {
+    tokenCache.set(key, token);
+    if (tokenStore) {
+      queueStoreWrite(() => tokenStore.saveToken(key, token));
+    }
+  };
+
+  const deleteCachedToken = (key: string): void => {
+    tokenCache.delete(key);
+    if (tokenStore) {
+      queueStoreWrite(() => tokenStore.deleteToken(key));
+    }
+  };
+
   const clearTokenCacheForProfile = (profileId: string): void => {
-    for (const key of tokenCache.keys()) {
+    for (const key of Array.from(tokenCache.keys())) {
       if (key.startsWith(`${profileId}::`)) {
-        tokenCache.delete(key);
+        deleteCachedToken(key);
       }
     }
   };
 
   const clearTokenCacheForProfileBaseUrl = (profileId: string, baseUrl: string): void => {
-    tokenCache.delete(getTokenCacheKey(profileId, baseUrl));
+    deleteCachedToken(getTokenCacheKey(profileId, baseUrl));
   };
 
-  const upsertProfile = (
-    profile: Omit<SaviyntProfileState, "updatedAt">,
-    setActive = true
-  ): SaviyntProfileState => {
+  const upsertProfile = (profile: ProfileInput, setActive = true): SaviyntProfileState => {
     const existing = profiles.get(profile.profileId);
     if (
       existing &&
       (existing.baseUrl !== profile.baseUrl ||
         existing.username !== profile.username ||
-        existing.password !== profile.password)
+        existing.passwordFingerprint !== profile.passwordFingerprint)
     ) {
       clearTokenCacheForProfile(profile.profileId);
     }
@@ -417,14 +839,17 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       updatedAt: Date.now(),
     };
     profiles.set(next.profileId, next);
+    if (profileStore && next.source === "session") {
+      queueStoreWrite(() => profileStore.saveProfile(next));
+    }
     if (setActive) {
-      activeProfileId = next.profileId;
+      setActiveProfileId(next.profileId);
     }
     return next;
   };
 
   const ensureAuthFromEnvironment = (preferredBaseUrl?: string): SaviyntProfileState | null => {
-    if (!serviceUsername || !servicePassword) {
+    if (!serviceUsername || !serviceCredential) {
       return null;
     }
 
@@ -437,7 +862,7 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       {
         profileId: ENV_PROFILE_ID,
         username: serviceUsername,
-        password: servicePassword,
+        ...serviceCredential,
         baseUrl: normalizeBaseUrl(envBaseUrl),
         source: "env",
       },
@@ -456,7 +881,7 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       if (activeProfile) {
         return activeProfile;
       }
-      activeProfileId = null;
+      setActiveProfileId(null);
     }
 
     return null;
@@ -558,16 +983,127 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       tokenValid,
       tokenExpiresAt,
       updatedAt: profile.updatedAt,
+      rateLimit: rateLimiter?.status(getTokenCacheKey(profile.profileId, profile.baseUrl)) ?? null,
     };
   };
 
+  const assertProfileAllowed = (profileId: string): void => {
+    if (!accessPolicy) {
+      return;
+    }
+    const caller = toolCallContext.getStore()?.caller;
+    const decision = accessPolicy.checkProfile(caller, profileId);
+    if (!decision.allowed) {
+      throw new PolicyDeniedError(decision.reason || "Profile denied by policy.", {
+        profileId,
+        caller: caller?.subject || null,
+      });
+    }
+  };
+
+  const isProfileAllowed = (profileId: string): boolean => {
+    const caller = toolCallContext.getStore()?.caller;
+    return !accessPolicy || accessPolicy.checkProfile(caller, profileId).allowed;
+  };
+
   const ensureWritesEnabled = (toolName: string): void => {
-    if (writesEnabled) {
+    const context = toolCallContext.getStore();
+    if (context) {
+      context.writes = true;
+    }
+    // Dry runs send nothing, so they are allowed even while writes are switched off.
+    if (!writePolicy && !writesEnabled && !context?.dryRun) {
+      throw new Error(
+        `Write operations are disabled. Set SAVIYNT_ENABLE_WRITE=true to enable '${toolName}'.`
+      );
+    }
+
+    const caller = context?.caller;
+    if (caller && !caller.scopes.includes(writeScope)) {
+      throw new PolicyDeniedError(
+        `Caller '${caller.subject}' lacks the '${writeScope}' scope required for '${toolName}'.`,
+        { caller: caller.subject, requiredScope: writeScope }
+      );
+    }
+  };
+
+  const assertWriteAllowed = (method: HttpMethod, endpoint: string, profileId?: string): void => {
+    const context = toolCallContext.getStore();
+    if (!writePolicy || !context?.writes) {
       return;
     }
-    throw new Error(
-      `Write operations are disabled. Set SAVIYNT_ENABLE_WRITE=true to enable '${toolName}'.`
-    );
+    const decision = writePolicy.check({
+      tool: context.toolName || "unknown",
+      method,
+      endpoint,
+      profileId,
+    });
+    if (!decision.allowed) {
+      throw new PolicyDeniedError(decision.reason || "Write denied by policy.", {
+        code: "write_policy_denied",
+        method,
+        endpoint,
+        profileId: profileId || null,
+      });
+    }
+  };
+
+  const assertWriteConfirmed = async (
+    method: HttpMethod,
+    url: URL,
+    body: JsonObject | undefined,
+    profileId: string | undefined,
+    baseUrl: string
+  ): Promise<void> => {
+    const context = toolCallContext.getStore();
+    if (!confirmWrites || !context?.writes || !context.requiresConfirmation || context.confirmed) {
+      return;
+    }
+    const write = {
+      tool: context.toolName || "unknown",
+      method,
+      url: url.toString(),
+      body,
+      profileId,
+      baseUrl,
+      subject: context.caller?.subject,
+    };
+    if (context.confirmationToken) {
+      await confirmations.consume(context.confirmationToken, write);
+      context.confirmed = true;
+      return;
+    }
+    const issued = confirmations.issue(write);
+    throw new ConfirmationRequiredError({
+      preview: {
+        tool: write.tool,
+        method,
+        url: write.url,
+        body: body ?? null,
+        profileId: profileId || null,
+        baseUrl,
+      },
+      confirmationToken: issued.token,
+      expiresAt: new Date(issued.expiresAt).toISOString(),
+    });
+  };
+
+  /** The current tool call's deadline; only work outside any call gets a fresh budget. */
+  const getDeadline = (): number =>
+    toolCallContext.getStore()?.deadline ?? Date.now() + retryPolicy.budgetMs;
+
+  /** Rate limit hook for fetchWithRetry, keyed like the token cache. */
+  const throttleFor = (
+    profileId: string | undefined,
+    baseUrl: string,
+    deadline: number,
+    signal?: AbortSignal
+  ): (() => Promise<() => void>) | undefined => {
+    if (!rateLimiter) {
+      return undefined;
+    }
+    const key = getTokenCacheKey(profileId || "", baseUrl);
+    return () => rateLimiter.acquire(key, deadline, signal);
   };
 
   const ensureBearerToken = async (
@@ -576,6 +1112,7 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     preferredBaseUrl?: string
   ): Promise<string> => {
     const profile = ensureLoggedInProfile(requestedProfileId, preferredBaseUrl);
+    assertProfileAllowed(profile.profileId);
     const baseUrl = resolveBaseUrl(preferredBaseUrl, profile);
     const cacheKey = getTokenCacheKey(profile.profileId, baseUrl);
     const cachedToken = tokenCache.get(cacheKey);
@@ -584,28 +1121,41 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       if (Date.now() < cachedToken.tokenExpiresAt) {
         return cachedToken.bearerToken;
       }
-      tokenCache.delete(cacheKey);
+      deleteCachedToken(cacheKey);
     }
 
     const attempts: string[] = [];
+    const deadline = getDeadline();
+    const signal = toolCallContext.getStore()?.signal;
+    const password = keyring.open(profile.sealedPassword);
     const payloadCandidates: JsonObject[] = [
-      { username: profile.username, password: profile.password },
-      { username: profile.username, password: profile.password, grant_type: "password" },
+      { username: profile.username, password },
+      { username: profile.username, password, grant_type: "password" },
     ];
 
     for (const endpoint of LOGIN_ENDPOINTS) {
       for (const payload of payloadCandidates) {
         const requestUrl = new URL(endpoint, baseUrl);
-        const response = await fetch(requestUrl.toString(), {
-          method: "POST",
-          headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
+        // Login exchanges create no state in Saviynt, so they are retried like reads.
+        const { response, body: parsedBody } = await fetchWithRetry(
+          requestUrl.toString(),
+          {
+            method: "POST",
+            headers: {
+              Accept: "application/json",
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(payload),
           },
-          body: JSON.stringify(payload),
-        });
-
-        const parsedBody = await parseResponseBody(response);
+          retryPolicy,
+          {
+            idempotent: true,
+            deadline,
+            throttle: throttleFor(profile.profileId, baseUrl, deadline, signal),
+            signal,
+          },
+          parseResponseBody
+        );
         if (!response.ok) {
           attempts.push(`${endpoint} -> ${response.status} ${response.statusText}`);
           continue;
@@ -619,11 +1169,13 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
 
         const expiresInSeconds = getTokenExpirySeconds(parsedBody);
         const refreshSeconds = Math.max(30, Math.floor(expiresInSeconds * 0.92));
-        tokenCache.set(cacheKey, {
+        setCachedToken(cacheKey, {
           bearerToken: token,
           tokenExpiresAt: Date.now() + refreshSeconds * 1000,
         });
-        activeProfileId = profile.profileId;
+        if (activeProfileId !== profile.profileId) {
+          setActiveProfileId(profile.profileId);
+        }
         return token;
       }
     }
@@ -647,10 +1199,28 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         `Profile '${requestedProfileId}' was not found. Call saviynt_upsert_profile or saviynt_login first.`
       );
     }
+    if (profile) {
+      assertProfileAllowed(profile.profileId);
+    }
     const baseUrl = resolveBaseUrl(opts.baseUrl, profile);
 
     const url = new URL(opts.endpoint, baseUrl);
     appendQuery(url, opts.query);
+    const context = toolCallContext.getStore();
+    // Recorded before any checks so denied and previewed writes show up in the audit trail.
+    const apiCall: AuditApiCall = {
+      method,
+      endpoint: url.pathname,
+      baseUrl,
+      profileId: profile?.profileId,
+    };
+    context?.apiCalls?.push(apiCall);
+
+    assertWriteAllowed(method, url.pathname, profile?.profileId);
+    const dryRun = Boolean(context?.writes && context.dryRun);
+    if (!dryRun) {
+      await assertWriteConfirmed(method, url, opts.body, profile?.profileId, baseUrl);
+    }
 
     const headers: Record<string, string> = {
       Accept: "application/json",
@@ -659,16 +1229,84 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       headers["Content-Type"] = "application/json";
     }
 
+    if (dryRun) {
+      const cachedToken = profile
+        ? tokenCache.get(getTokenCacheKey(profile.profileId, baseUrl))
+        : undefined;
+      throw new DryRunCompletedError({
+        tool: context?.toolName || null,
+        profileId: profile?.profileId || null,
+        baseUrl,
+        request: {
+          method,
+          url: url.toString(),
+          headers: requiresAuth ? { ...headers, Authorization: `Bearer ${REDACTED}` } : headers,
+          body: opts.body ?? null,
+        },
+        auth: {
+          required: requiresAuth,
+          // Without a valid cached token the real call would log in first.
+          tokenCached: Boolean(
+            cachedToken?.bearerToken &&
+              cachedToken.tokenExpiresAt &&
+              Date.now() < cachedToken.tokenExpiresAt
+          ),
+        },
+      });
+    }
+
+    const cacheKeyParts: CacheKeyParts | undefined =
+      responseCache && context?.cache && context.toolName && profile
+        ? {
+            tool: context.toolName,
+            profileId: profile.profileId,
+            credential: `${profile.username}:${profile.passwordFingerprint}`,
+            baseUrl,
+            method,
+            endpoint: url.pathname,
+            query: url.search,
+            body: opts.body,
+          }
+        : undefined;
+    const cacheKey = cacheKeyParts ? ResponseCache.key(cacheKeyParts) : undefined;
+    if (responseCache && cacheKey && !context?.bypassCache) {
+      const cached = responseCache.get(cacheKey);
+      if (cached) {
+        apiCall.cached = true;
+        return cached.value;
+      }
+    }
+
     if (requiresAuth) {
       const token = await ensureBearerToken(false, profile?.profileId, baseUrl);
       headers.Authorization = `Bearer ${token}`;
     }
 
-    const response = await fetch(url.toString(), {
-      method,
-      headers,
-      body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
-    });
+    const deadline = getDeadline();
+    const { response, body: parsedBody, retries } = await fetchWithRetry(
+      url.toString(),
+      {
+        method,
+        headers,
+        body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
+      },
+      retryPolicy,
+      {
+        // POSTs from read tools are lookups and safe to resend.
+        idempotent: IDEMPOTENT_METHODS.has(method) || !context?.writes,
+        deadline,
+        throttle: throttleFor(profile?.profileId, baseUrl, deadline, context?.signal),
+        signal: context?.signal,
+      },
+      parseResponseBody
+    );
+    apiCall.status = response.status;
+    if (retries > 0) {
+      apiCall.retries = retries;
+    }
+    if (responseCache && context?.writes) {
+      responseCache.invalidateForWrite(baseUrl, url.pathname);
+    }
 
     if (response.status === 401 && retryOnUnauthorized && requiresAuth) {
       if (profile) {
@@ -683,7 +1321,6 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       });
     }
 
-    const parsedBody = await parseResponseBody(response);
     if (!response.ok) {
       const detailText =
         typeof parsedBody === "string" ? parsedBody : asJsonText(parsedBody);
@@ -692,6 +1329,9 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       );
     }
 
+    if (responseCache && cacheKeyParts && cacheKey && context?.cache) {
+      responseCache.set(cacheKey, cacheKeyParts, parsedBody, context.cache.invalidatedBy);
+    }
     return parsedBody;
   };
 
@@ -701,36 +1341,328 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     .optional()
     .describe("Optional auth profile ID. If omitted, the active profile is used.");
 
+  const dryRunInputSchema = z
+    .boolean()
+    .optional()
+    .describe("Return the fully built request (Authorization redacted) without sending it.");
+
+  const bypassCacheInputSchema = z
+    .boolean()
+    .optional()
+    .describe("Fetch fresh data from Saviynt instead of a cached response.");
+
+  const confirmationTokenInputSchema = z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Token from a previous preview of this exact call. Omit it first to get a preview and token."
+    );
+
+  const paginationInputSchema = {
+    offset: z.number().int().min(0).optional().describe("Row to start from. Default: 0"),
+    fetchAll: z
+      .boolean()
+      .optional()
+      .describe("Keep requesting pages until the listing ends or maxPages is reached."),
+    maxPages: z
+      .number()
+      .int()
+      .positive()
+      .max(100)
+      .optional()
+      .describe(`Page limit for fetchAll. Default: ${DEFAULT_MAX_PAGES}`),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("nextCursor from a previous call; continues that listing with its filters."),
+  };
+
+  /**
+   * Runs a list/search tool through the shared paging layer. `buildRequest`
+   * maps the filters plus Saviynt's `offset`/`max` to one API request.
+   */
+  const paginatedList = async (
+    toolName: string,
+    args: JsonObject,
+    filters: JsonObject,
+    buildRequest: (filters: JsonObject, offset: number, max: number) => ApiRequestOptions,
+    normalize: (raw: JsonObject) => JsonObject
+  ): Promise<CallToolResult> => {
+    const cursorText = asString(args.cursor);
+    const state = cursorText
+      ? decodeCursor(cursorText, toolName)
+      : {
+          tool: toolName,
+          offset: asNumber(args.offset) || 0,
+          pageSize: asNumber(args.limit) || DEFAULT_PAGE_SIZE,
+          filters,
+        };
+    const maxPages = asBoolean(args.fetchAll)
+      ? asNumber(args.maxPages) ||
+        positiveIntFromEnv(process.env.SAVIYNT_MAX_PAGES, DEFAULT_MAX_PAGES)
+      : 1;
+
+    const page = await paginate({
+      fetchPage: (offset, max) => callSaviyntApi(buildRequest(state.filters, offset, max)),
+      offset: state.offset,
+      pageSize: state.pageSize,
+      maxPages,
+    });
+
+    const listing = {
+      success: true,
+      count: page.items.length,
+      totalCount: page.totalCount ?? null,
+      offset: state.offset,
+      pagesFetched: page.pagesFetched,
+      hasMore: page.nextOffset !== null,
+      nextCursor:
+        page.nextOffset === null ? null : encodeCursor({ ...state, offset: page.nextOffset }),
+    };
+    return modelResult({ ...listing, items: page.items }, (value) => ({
+      ...listing,
+      items: normalizeList(value, normalize).items,
+    }));
+  };
+
+  /**
+   * Replaces a result whose text would be truncated with a summary and a
+   * resource_link to the full result in the result store. Tools with an output
+   * schema keep their (already size-limited) structuredContent.
+   */
+  const spillOversizedResult = async (
+    toolName: string,
+    result: CallToolResult,
+    caller: CallerIdentity | undefined,
+    outputSchema: Record<string, z.ZodTypeAny> | undefined
+  ): Promise<CallToolResult> => {
+    const source = resultSources.get(result);
+    if (!resultStore || !source || asJsonText(source.value).length <= maxResultTextChars()) {
+      return result;
+    }
+    const stored = await resultStore.put(toolName, source.value, ownerOf(caller));
+    const summary = {
+      success: true,
+      spilled: true,
+      message:
+        "Result is too large to return inline. Read it with resources/read: the chunk URIs return the JSON text in order, the page URIs return rows.",
+      ...resultStore.summarize(stored, source.value),
+    };
+    return {
+      content: [
+        { type: TEXT_CONTENT, text: asJsonText(summary) },
+        {
+          type: "resource_link",
+          uri: summary.resourceUri,
+          name: `${toolName}-${stored.id}`,
+          mimeType: "application/json",
+          description: `Full ${toolName} result (${summary.totalChars} chars)`,
+        },
+      ],
+      structuredContent: outputSchema ? result.structuredContent : summary,
+    };
+  };
+
+  const resultShapeInputSchema = {
+    fields: z
+      .array(z.string().min(1))
+      .optional()
+      .describe("Row fields to return, as JSON paths, e.g. ['entitlement_value', 'owner.name']"),
+    where: z
+      .array(
+        z.object({
+          path: z.string().min(1).describe("JSON path within each row"),
+          op: z.enum(WHERE_OPERATORS).optional().describe("Default: eq"),
+          value: z.unknown().optional(),
+        })
+      )
+      .optional()
+      .describe("Only return rows matching every condition"),
+    sort: z
+      .array(z.string().min(1))
+      .optional()
+      .describe("Row paths to sort by; prefix with '-' for descending"),
+  };
+
+  const recordAudit = async (
+    context: ToolCallContext,
+    args: JsonObject,
+    status: AuditStatus,
+    startedAt: number,
+    result: CallToolResult
+  ): Promise<void> => {
+    if (!auditLog) {
+      return;
+    }
+    const apiCalls = context.apiCalls || [];
+    const lastCall = apiCalls[apiCalls.length - 1];
+    const details = isRecord(result.structuredContent) ? result.structuredContent : undefined;
+    await auditLog.record({
+      timestamp: new Date(startedAt).toISOString(),
+      tool: context.toolName || "unknown",
+      class: context.writes ? "write" : "read",
+      status,
+      durationMs: Date.now() - startedAt,
+      caller: context.caller?.subject || null,
+      clientId: context.caller?.clientId || null,
+      authMethod: context.caller?.authMethod || null,
+      profileId: lastCall?.profileId || context.profileId || activeProfileId || null,
+      baseUrl: lastCall?.baseUrl || null,
+      method: lastCall?.method || null,
+      endpoint: lastCall?.endpoint || null,
+      apiCalls,
+      args: redactArgs(args) as JsonObject,
+      error:
+        result.isError && details
+          ? truncate(asJsonText(details.details ?? details.error ?? details.message), 500)
+          : undefined,
+    });
+  };
+
+  const registeredToolNames = new Set<string>();
+
   const registerTool = (
     name: string,
     description: string,
     inputSchema: Record<string, z.ZodTypeAny>,
-    handler: (args: JsonObject) => Promise<CallToolResult>,
-    options: { includeProfileId?: boolean } = {}
+    handler: ToolHandler,
+    options: {
+      includeProfileId?: boolean;
+      write?: boolean;
+      confirm?: boolean;
+      cache?: CacheToolOptions;
+      /** Declared structuredContent shape; the handler must return it via modelResult. */
+      outputSchema?: Record<string, z.ZodTypeAny>;
+      /** Accept `fields`, `where` and `sort` and apply them to the returned rows. */
+      shape?: boolean;
+    } = {}
   ): void => {
+    registeredToolNames.add(name);
     const includeProfileId = options.includeProfileId ?? true;
+    const isWriteTool = Boolean(options.write || options.confirm);
+    const requiresConfirmation = Boolean(options.confirm) && confirmWrites;
     const schemaWithProfileId =
       includeProfileId && !Object.prototype.hasOwnProperty.call(inputSchema, "profileId")
         ? { ...inputSchema, profileId: profileIdInputSchema }
         : inputSchema;
+    const fullSchema = {
+      ...schemaWithProfileId,
+      ...(isWriteTool ? { dryRun: dryRunInputSchema } : {}),
+      ...(options.cache ? { bypassCache: bypassCacheInputSchema } : {}),
+      ...(options.shape ? resultShapeInputSchema : {}),
+      ...(requiresConfirmation ? { confirmationToken: confirmationTokenInputSchema } : {}),
+    };
 
     server.registerTool(
       name,
       {
         description,
-        inputSchema: schemaWithProfileId,
+        inputSchema: fullSchema,
+        outputSchema: options.outputSchema,
       },
-      async (args) => {
+      async (args, extra) => {
         const parsedArgs = args as JsonObject;
-        return toolCallContext.run({ profileId: asString(parsedArgs.profileId) }, async () => {
+        const progressToken = extra._meta?.progressToken;
+        const context: ToolCallContext = {
+          profileId: asString(parsedArgs.profileId),
+          caller: callerFromAuthInfo(extra.authInfo),
+          toolName: name,
+          requiresConfirmation,
+          confirmationToken: asString(parsedArgs.confirmationToken),
+          dryRun: isWriteTool && (dryRunAllWrites || asBoolean(parsedArgs.dryRun) === true),
+          apiCalls: [],
+          deadline: Date.now() + retryPolicy.budgetMs,
+          cache: options.cache,
+          bypassCache: asBoolean(parsedArgs.bypassCache) === true,
+          signal: extra.signal,
+          reportProgress:
+            progressToken === undefined
+              ? undefined
+              : (progress, message) =>
+                  extra.sendNotification({
+                    method: "notifications/progress",
+                    params: { progressToken, progress, message },
+                  }),
+        };
+        const execute = async (): Promise<[CallToolResult, AuditStatus]> => {
           try {
-            return await handler(parsedArgs);
+            await loadFromStores();
+            if (accessPolicy) {
+              const toolDecision = accessPolicy.checkTool(context.caller, name);
+              if (!toolDecision.allowed) {
+                throw new PolicyDeniedError(toolDecision.reason || "Tool denied by policy.", {
+                  caller: context.caller?.subject || null,
+                });
+              }
+              // Profile the call will run under: explicit, active, or the env fallback.
+              const targetProfileId =
+                context.profileId ||
+                (includeProfileId
+                  ? activeProfileId || (serviceCredential ? ENV_PROFILE_ID : undefined)
+                  : undefined);
+              if (targetProfileId) {
+                assertProfileAllowed(targetProfileId);
+              }
+            }
+            let result = await handler(parsedArgs, context);
+            const shape: ResultShape = {
+              fields: parsedArgs.fields as string[] | undefined,
+              where: parsedArgs.where as WhereClause[] | undefined,
+              sort: parsedArgs.sort as string[] | undefined,
+            };
+            if (options.shape && !result.isError && hasShape(shape)) {
+              result = shapedResult(result, shape);
+            }
+            if (!result.isError) {
+              result = await spillOversizedResult(
+                name,
+                result,
+                context.caller,
+                options.outputSchema
+              );
+            }
+            await flushStoreWrites();
+            return [result, result.isError ? "error" : "success"];
           } catch (error) {
+            await flushStoreWrites().catch(() => undefined);
             if (error instanceof LoginRequiredError) {
-              return loginRequiredResult(error.message);
+              return [loginRequiredResult(error.message), "login_required"];
+            }
+            if (error instanceof DryRunCompletedError) {
+              return [okResult({ success: true, dryRun: true, ...error.request }), "dry_run"];
+            }
+            if (error instanceof ConfirmationRequiredError) {
+              return [confirmationRequiredResult(error.preview), "confirmation_required"];
             }
-            return errorResult(`Tool '${name}' failed`, toErrorMessage(error));
+            if (error instanceof PolicyDeniedError) {
+              return [
+                errorResult("Access denied by policy", {
+                  code: "policy_denied",
+                  tool: name,
+                  reason: error.message,
+                  ...error.details,
+                }),
+                "denied",
+              ];
+            }
+            return [errorResult(`Tool '${name}' failed`, toErrorMessage(error)), "error"];
+          }
+        };
+
+        return toolCallContext.run(context, async () => {
+          const startedAt = Date.now();
+          const [result, status] = await execute();
+          await recordAudit(context, parsedArgs, status, startedAt, result);
+          // Clients validate any structuredContent against the output schema, even on errors.
+          if (options.outputSchema && result.isError && result.structuredContent) {
+            return {
+              content: [{ type: TEXT_CONTENT, text: asJsonText(result.structuredContent) }],
+              isError: true,
+            };
           }
+          return result;
         });
       }
     );
@@ -761,7 +1693,7 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       {
         profileId: requestedProfileId,
         username,
-        password,
+        ...sealPassword(password),
         baseUrl: resolvedBaseUrl,
         source: "session",
       },
@@ -787,6 +1719,7 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     ensureAuthFromEnvironment();
 
     const profilesList = Array.from(profiles.values())
+      .filter((profile) => isProfileAllowed(profile.profileId))
       .sort((a, b) => a.profileId.localeCompare(b.profileId))
       .map((profile) => getProfileSummary(profile));
 
@@ -803,7 +1736,7 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     const activeProfile =
       (activeProfileId && profiles.get(activeProfileId)) || profiles.get(ENV_PROFILE_ID) || null;
     if (activeProfile && activeProfile.profileId !== activeProfileId) {
-      activeProfileId = activeProfile.profileId;
+      setActiveProfileId(activeProfile.profileId);
     }
 
     return okResult({
@@ -841,7 +1774,7 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         {
           profileId,
           username,
-          password,
+          ...sealPassword(password),
           baseUrl: normalizeBaseUrl(url),
           source: "session",
         },
@@ -912,7 +1845,7 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         );
       }
 
-      activeProfileId = profile.profileId;
+      setActiveProfileId(profile.profileId);
       return okResult({
         success: true,
         activeProfileId,
@@ -947,10 +1880,13 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       }
 
       profiles.delete(profileId);
+      if (profileStore) {
+        queueStoreWrite(() => profileStore.deleteProfile(profileId));
+      }
       clearTokenCacheForProfile(profileId);
 
       if (activeProfileId === profileId) {
-        activeProfileId = null;
+        setActiveProfileId(null);
         ensureAuthFromEnvironment();
       }
 
@@ -979,24 +1915,92 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     { includeProfileId: false }
   );
 
+  registerTool(
+    "saviynt_get_mcp_audit_log",
+    "Return recent audit records of your tool calls through this MCP server (newest first). Callers with the audit scope see every caller's records.",
+    {
+      limit: z.number().int().positive().max(500).optional().describe("Default: 50"),
+      tool: z.string().min(1).optional().describe("Only calls to this tool"),
+      caller: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Only calls by this caller subject (other callers need the audit scope)"),
+      profileId: z.string().min(1).optional().describe("Only calls that used this profile"),
+      status: z
+        .enum(["success", "error", "denied", "login_required", "confirmation_required", "dry_run"])
+        .optional(),
+      since: z.string().min(1).optional().describe("Only records at or after this ISO timestamp"),
+    },
+    async (args, context) => {
+      if (!auditLog) {
+        return errorResult("Audit logging is disabled for this server.");
+      }
+      const caller = context.caller;
+      const requestedCaller = asString(args.caller);
+      const seesAllCallers = Boolean(caller?.scopes.includes(auditScope));
+      if (!seesAllCallers && requestedCaller && requestedCaller !== caller?.subject) {
+        throw new PolicyDeniedError(
+          `Reading other callers' audit records requires the '${auditScope}' scope.`,
+          { caller: caller?.subject || null }
+        );
+      }
+      const records = await auditLog.query({
+        limit: asNumber(args.limit),
+        tool: asString(args.tool),
+        caller: requestedCaller,
+        // Without the audit scope a caller only sees its own calls.
+        owner: seesAllCallers ? undefined : (ownerOf(caller) ?? null),
+        profileId: asString(args.profileId),
+        status: asString(args.status) as AuditStatus | undefined,
+        since: asString(args.since),
+      });
+      return okResult({ success: true, count: records.length, records });
+    },
+    { includeProfileId: false }
+  );
+
+  registerTool(
+    "saviynt_clear_cache",
+    "Drop cached read responses so the next lookups go to Saviynt.",
+    {
+      tool: z.string().min(1).optional().describe("Only entries of this tool"),
+      profileId: z.string().min(1).optional().describe("Only entries of this profile"),
+    },
+    async (args) => {
+      if (!responseCache) {
+        return errorResult("Response caching is disabled for this server.");
+      }
+      const cleared = responseCache.clear({
+        tool: asString(args.tool),
+        profileId: asString(args.profileId),
+      });
+      return okResult({ success: true, cleared, cache: responseCache.status() });
+    },
+    { includeProfileId: false }
+  );
+
   registerTool(
     "saviynt_query_identities",
     "Query identities/users from Saviynt.",
     {
       query: z.string().optional(),
-      limit: z.number().int().positive().max(1000).optional(),
+      limit: z.number().int().positive().max(1000).optional().describe("Page size. Default: 50"),
+      ...paginationInputSchema,
     },
-    async (args) => {
-      const result = await callSaviyntApi({
-        endpoint: "/ECM/api/getIdentities",
-        method: "POST",
-        body: {
-          query: asString(args.query) || "",
-          limit: asNumber(args.limit) || 50,
-        },
-      });
-      return okResult(result);
-    }
+    async (args) =>
+      paginatedList(
+        "saviynt_query_identities",
+        args,
+        { query: asString(args.query) || "" },
+        (filters, offset, max) => ({
+          endpoint: "/ECM/api/getIdentities",
+          method: "POST",
+          body: { ...filters, offset, max },
+        }),
+        normalizeUser
+      ),
+    { outputSchema: listOutputShape(userSchema), shape: true }
   );
 
   registerTool(
@@ -1016,8 +2020,9 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         method: "POST",
         body: { userId },
       });
-      return okResult(result);
-    }
+      return modelResult(result, normalizeUserResponse);
+    },
+    { outputSchema: userOutputShape, shape: true }
   );
 
   registerTool(
@@ -1028,22 +2033,27 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       department: z.string().optional(),
       status: z.string().optional(),
       role: z.string().optional(),
-      limit: z.number().int().positive().max(1000).optional(),
+      limit: z.number().int().positive().max(1000).optional().describe("Page size. Default: 50"),
+      ...paginationInputSchema,
     },
-    async (args) => {
-      const result = await callSaviyntApi({
-        endpoint: "/ECM/api/searchUsers",
-        method: "POST",
-        body: {
+    async (args) =>
+      paginatedList(
+        "saviynt_search_users",
+        args,
+        {
           query: asString(args.query),
           department: asString(args.department),
           status: asString(args.status),
           role: asString(args.role),
-          limit: asNumber(args.limit),
         },
-      });
-      return okResult(result);
-    }
+        (filters, offset, max) => ({
+          endpoint: "/ECM/api/searchUsers",
+          method: "POST",
+          body: { ...filters, offset, max },
+        }),
+        normalizeUser
+      ),
+    { outputSchema: listOutputShape(userSchema), shape: true }
   );
 
   registerTool(
@@ -1067,8 +2077,9 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
           applicationId: asString(args.applicationId),
         },
       });
-      return okResult(result);
-    }
+      return modelResult(result, (value) => normalizeList(value, normalizeAccount));
+    },
+    { outputSchema: listOutputShape(accountSchema), shape: true }
   );
 
   registerTool(
@@ -1092,8 +2103,9 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
           applicationId: asString(args.applicationId),
         },
       });
-      return okResult(result);
-    }
+      return modelResult(result, (value) => normalizeList(value, normalizeEntitlement));
+    },
+    { outputSchema: listOutputShape(entitlementSchema), shape: true }
   );
 
   registerTool(
@@ -1102,21 +2114,127 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     {
       status: z.string().optional(),
       requestor: z.string().optional(),
-      limit: z.number().int().positive().max(1000).optional(),
-      offset: z.number().int().min(0).optional(),
+      limit: z.number().int().positive().max(1000).optional().describe("Page size. Default: 50"),
+      ...paginationInputSchema,
     },
-    async (args) => {
-      const result = await callSaviyntApi({
-        endpoint: "/ECM/api/listAccessRequests",
-        method: "POST",
-        body: {
+    async (args) =>
+      paginatedList(
+        "saviynt_search_access_requests",
+        args,
+        {
           status: asString(args.status),
           requestor: asString(args.requestor),
-          limit: asNumber(args.limit),
-          offset: asNumber(args.offset),
+        },
+        (filters, offset, max) => ({
+          endpoint: "/ECM/api/listAccessRequests",
+          method: "POST",
+          body: { ...filters, offset, max },
+        }),
+        normalizeAccessRequest
+      ),
+    { outputSchema: listOutputShape(accessRequestSchema), shape: true }
+  );
+
+  registerTool(
+    "saviynt_get_access_request",
+    "Fetch one access request with its line items, approval chain, current approvers, " +
+      "provisioning tasks and comments. mode 'wait_for_request' polls until it is finished.",
+    {
+      requestId: z.string().min(1).optional().describe("Request ID (requestid)"),
+      requestKey: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Request key (requestkey); use instead of requestId"),
+      mode: z
+        .enum(["get", "wait_for_request"])
+        .optional()
+        .describe("'wait_for_request' polls with backoff until a terminal status. Default: get"),
+      timeoutSeconds: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Longest wait; capped by the tool call time budget"),
+      pollIntervalSeconds: z
+        .number()
+        .int()
+        .positive()
+        .max(300)
+        .optional()
+        .describe(
+          `First poll interval, doubled after each poll. Default: ${DEFAULT_REQUEST_POLL_SECONDS}`
+        ),
+      terminalStatuses: z
+        .array(z.string().min(1))
+        .optional()
+        .describe("Statuses that end the wait. Default: completed, rejected, cancelled, etc."),
+    },
+    async (args, context) => {
+      const requestId = asString(args.requestId);
+      const requestKey = asString(args.requestKey);
+      if (!requestId && !requestKey) {
+        return errorResult("Provide requestId or requestKey.");
+      }
+      // Send only what the caller gave: an ID is not a valid key and vice versa.
+      const lookup: JsonObject = {};
+      if (requestId) {
+        lookup.requestid = requestId;
+      }
+      if (requestKey) {
+        lookup.requestkey = requestKey;
+      }
+      const terminalStatuses = Array.isArray(args.terminalStatuses)
+        ? (args.terminalStatuses as string[])
+        : undefined;
+      const load = async (): Promise<JsonObject> =>
+        normalizeAccessRequestDetail(
+          await callSaviyntApi({
+            endpoint: `/ECM/${defaultApiPath}/fetchRequestHistoryDetails`,
+            method: "POST",
+            body: lookup,
+          })
+        );
+
+      if (args.mode !== "wait_for_request") {
+        const request = await load();
+        return okResult({
+          success: true,
+          terminal: isTerminalStatus(request.status, terminalStatuses),
+          request,
+        });
+      }
+
+      // Leave room for the last poll to finish inside the call budget.
+      const budgetDeadline = getDeadline() - retryPolicy.timeoutMs;
+      const timeoutSeconds = asNumber(args.timeoutSeconds);
+      const wait = await waitForRequest(load, {
+        intervalMs: (asNumber(args.pollIntervalSeconds) || DEFAULT_REQUEST_POLL_SECONDS) * 1000,
+        maxIntervalMs: MAX_REQUEST_POLL_INTERVAL_MS,
+        deadline: timeoutSeconds
+          ? Math.min(budgetDeadline, Date.now() + timeoutSeconds * 1000)
+          : budgetDeadline,
+        terminalStatuses,
+        signal: context.signal,
+        onPoll: async (request, poll) => {
+          const approvers = isTerminalStatus(request.status, terminalStatuses)
+            ? ""
+            : (request.currentApprovers as string[]).join(", ");
+          await context.reportProgress?.(
+            poll,
+            `Request ${requestId ?? requestKey} is ${request.status ?? "unknown"}` +
+              (approvers ? `, waiting on ${approvers}` : "")
+          );
         },
       });
-      return okResult(result);
+      return okResult({
+        success: true,
+        terminal: wait.terminal,
+        stopReason: wait.stopReason,
+        polls: wait.polls,
+        elapsedMs: wait.elapsedMs,
+        request: wait.detail,
+      });
     }
   );
 
@@ -1135,7 +2253,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { cache: CACHE_APPLICATIONS, shape: true }
   );
 
   registerTool(
@@ -1152,8 +2271,9 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
           searchText: asString(args.searchText),
         },
       });
-      return okResult(result);
-    }
+      return modelResult(result, (value) => normalizeList(value, normalizeEndpoint));
+    },
+    { cache: CACHE_ENDPOINTS, outputSchema: listOutputShape(endpointSchema), shape: true }
   );
 
   registerTool(
@@ -1173,7 +2293,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1199,7 +2320,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1225,7 +2347,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1245,7 +2368,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         method: "GET",
       });
       return okResult(result);
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1273,7 +2397,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1291,7 +2416,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { cache: CACHE_SYSTEM_CONFIG, shape: true }
   );
 
   registerTool(
@@ -1299,19 +2425,22 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     "List roles.",
     {
       searchText: z.string().optional(),
-      limit: z.number().int().positive().max(5000).optional(),
+      limit: z.number().int().positive().max(5000).optional().describe("Page size. Default: 50"),
+      ...paginationInputSchema,
     },
-    async (args) => {
-      const result = await callSaviyntApi({
-        endpoint: "/ECM/api/roles",
-        method: "GET",
-        query: {
-          searchText: asString(args.searchText),
-          limit: asNumber(args.limit),
-        },
-      });
-      return okResult(result);
-    }
+    async (args) =>
+      paginatedList(
+        "saviynt_list_roles",
+        args,
+        { searchText: asString(args.searchText) },
+        (filters, offset, max) => ({
+          endpoint: "/ECM/api/roles",
+          method: "GET",
+          query: { ...filters, offset, max },
+        }),
+        normalizeRole
+      ),
+    { cache: CACHE_ROLES, outputSchema: listOutputShape(roleSchema), shape: true }
   );
 
   registerTool(
@@ -1319,19 +2448,174 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     "List campaigns.",
     {
       status: z.string().optional(),
-      limit: z.number().int().positive().max(5000).optional(),
+      limit: z.number().int().positive().max(5000).optional().describe("Page size. Default: 50"),
+      ...paginationInputSchema,
     },
-    async (args) => {
-      const result = await callSaviyntApi({
-        endpoint: "/ECM/api/listCampaigns",
-        method: "POST",
-        body: {
-          status: asString(args.status),
-          limit: asNumber(args.limit),
+    async (args) =>
+      paginatedList(
+        "saviynt_list_campaigns",
+        args,
+        { status: asString(args.status) },
+        (filters, offset, max) => ({
+          endpoint: "/ECM/api/listCampaigns",
+          method: "POST",
+          body: { ...filters, offset, max },
+        }),
+        normalizeCampaign
+      ),
+    { outputSchema: listOutputShape(campaignSchema), shape: true }
+  );
+
+  const exportInputSchema = {
+    format: z.enum(["csv", "ndjson"]).optional().describe("Default: csv"),
+    columns: z
+      .array(
+        z.object({
+          name: z.string().min(1).describe("Column header / NDJSON key"),
+          path: z
+            .string()
+            .min(1)
+            .describe("JSON path in each record, e.g. email or manager.username"),
+        })
+      )
+      .optional()
+      .describe("Output columns in order. Default: every field, nested objects as dotted keys."),
+    pageSize: z
+      .number()
+      .int()
+      .positive()
+      .max(1000)
+      .optional()
+      .describe(`Default: ${DEFAULT_EXPORT_PAGE_SIZE}`),
+    maxPages: z
+      .number()
+      .int()
+      .positive()
+      .max(1000)
+      .optional()
+      .describe(`Default: SAVIYNT_EXPORT_MAX_PAGES or ${DEFAULT_EXPORT_MAX_PAGES}`),
+  };
+
+  /**
+   * Pages through a Saviynt list endpoint and returns the flattened records as
+   * an embedded CSV or NDJSON resource.
+   */
+  const exportHandler = async (
+    name: string,
+    endpoint: string,
+    filters: JsonObject,
+    args: JsonObject
+  ): Promise<CallToolResult> => {
+    const format: ExportFormat = args.format === "ndjson" ? "ndjson" : "csv";
+    const maxChars = positiveIntFromEnv(
+      process.env.SAVIYNT_EXPORT_MAX_CHARS,
+      DEFAULT_EXPORT_MAX_CHARS
+    );
+    // Stop paging once the raw responses alone would overflow the file size cap.
+    let fetchedChars = 0;
+    const page = await paginate({
+      fetchPage: async (offset, max) => {
+        const response = await callSaviyntApi({
+          endpoint,
+          method: "POST",
+          body: { ...filters, offset, max },
+        });
+        fetchedChars += asJsonText(response).length;
+        return response;
+      },
+      offset: 0,
+      pageSize: asNumber(args.pageSize) || DEFAULT_EXPORT_PAGE_SIZE,
+      maxPages:
+        asNumber(args.maxPages) ||
+        positiveIntFromEnv(process.env.SAVIYNT_EXPORT_MAX_PAGES, DEFAULT_EXPORT_MAX_PAGES),
+      shouldContinue: () => fetchedChars < maxChars,
+    });
+    const records = page.items.filter(isRecord);
+    const columns = Array.isArray(args.columns)
+      ? (args.columns as ExportColumn[])
+      : inferColumns(records);
+    const rows = projectRecords(records, columns);
+    const { text, rowCount } = renderExport(rows, columns, format, maxChars);
+    const rowsDropped = rowCount < rows.length;
+    // The size cap, rather than the page cap or the last page, ended the export.
+    const truncated = rowsDropped || (page.nextOffset !== null && fetchedChars >= maxChars);
+    const fileName = `${name}-${new Date().toISOString().replace(/[:.]/g, "-")}.${format}`;
+    const summary = {
+      success: true,
+      format,
+      fileName,
+      rowCount,
+      totalCount: page.totalCount ?? null,
+      columns: columns.map((column) => column.name),
+      pagesFetched: page.pagesFetched,
+      complete: page.nextOffset === null && !rowsDropped,
+      truncated,
+      nextOffset: rowsDropped ? rowCount : page.nextOffset,
+    };
+    return {
+      content: [
+        { type: TEXT_CONTENT, text: asJsonText(summary) },
+        {
+          type: "resource",
+          resource: {
+            uri: `saviynt-export://${fileName}`,
+            mimeType: EXPORT_MIME_TYPES[format],
+            text,
+          },
         },
-      });
-      return okResult(result);
-    }
+      ],
+      structuredContent: summary,
+    };
+  };
+
+  registerTool(
+    "saviynt_export_identities",
+    "Export identities from /ECM/api/getIdentities as a CSV or NDJSON file.",
+    {
+      query: z.string().optional(),
+      ...exportInputSchema,
+    },
+    async (args) =>
+      exportHandler(
+        "identities",
+        "/ECM/api/getIdentities",
+        { query: asString(args.query) || "" },
+        args
+      )
+  );
+
+  registerTool(
+    "saviynt_export_accounts",
+    "Export accounts from /ECM/api/getAccounts as a CSV or NDJSON file.",
+    {
+      identityId: z.string().optional().describe("Only accounts of this identity"),
+      applicationId: z.string().optional(),
+      ...exportInputSchema,
+    },
+    async (args) =>
+      exportHandler(
+        "accounts",
+        "/ECM/api/getAccounts",
+        { identityId: asString(args.identityId), applicationId: asString(args.applicationId) },
+        args
+      )
+  );
+
+  registerTool(
+    "saviynt_export_entitlements",
+    "Export entitlements from /ECM/api/getEntitlements as a CSV or NDJSON file.",
+    {
+      identityId: z.string().optional().describe("Only entitlements of this identity"),
+      applicationId: z.string().optional(),
+      ...exportInputSchema,
+    },
+    async (args) =>
+      exportHandler(
+        "entitlements",
+        "/ECM/api/getEntitlements",
+        { identityId: asString(args.identityId), applicationId: asString(args.applicationId) },
+        args
+      )
   );
 
   registerTool(
@@ -1351,7 +2635,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1376,7 +2661,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1401,7 +2687,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1428,7 +2715,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         roles,
         raw: profile,
       });
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1452,7 +2740,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1491,7 +2780,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         accounts: accountResult,
         entitlements: entitlementResult,
       });
-    }
+    },
+    { shape: true }
   );
 
   registerTool(
@@ -1524,6 +2814,83 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         count: requests.length,
         raw: result,
       });
+    },
+    { shape: true }
+  );
+
+  registerTool(
+    "saviynt_check_sod_impact",
+    "Preview the segregation-of-duties conflicts that granting entitlements to an identity " +
+      "would introduce, before requesting or approving access.",
+    {
+      identityId: z.string().min(1),
+      entitlementIds: z.array(z.string().min(1)).min(1).describe("Requested entitlement values"),
+      applicationId: z.string().optional().describe("Endpoint of the requested entitlements"),
+    },
+    async (args) => {
+      const identityId = asString(args.identityId);
+      if (!identityId) {
+        return errorResult("Missing required argument: identityId");
+      }
+      if (!localSodRules) {
+        return errorResult("No SoD rules configured. Set SAVIYNT_SOD_RULES_FILE.");
+      }
+
+      const held = await paginate({
+        fetchPage: (offset, max) =>
+          callSaviyntApi({
+            endpoint: "/ECM/api/getEntitlements",
+            method: "POST",
+            body: { identityId, offset, max },
+          }),
+        offset: 0,
+        pageSize: DEFAULT_PAGE_SIZE,
+        maxPages: positiveIntFromEnv(process.env.SAVIYNT_MAX_PAGES, DEFAULT_MAX_PAGES),
+      });
+      const current: SodEntitlement[] = normalizeItems(held.items, normalizeEntitlement).flatMap(
+        (item) => {
+          const value = asString(item.value) || asString(item.id);
+          return value
+            ? [
+                {
+                  id: asString(item.id) || null,
+                  value,
+                  endpoint: asString(item.endpoint) || null,
+                  requested: false,
+                },
+              ]
+            : [];
+        }
+      );
+      const applicationId = asString(args.applicationId) || null;
+      const requested: SodEntitlement[] = (args.entitlementIds as string[]).map((value) => ({
+        id: null,
+        value,
+        endpoint: applicationId,
+        requested: true,
+      }));
+
+      const evaluation = evaluateSod(current, requested, localSodRules);
+      // Conflicts with entitlements past the page cap cannot be seen.
+      const complete = held.nextOffset === null;
+      return okResult({
+        success: true,
+        identityId,
+        hasConflicts: evaluation.introduced.length > 0,
+        introducedConflicts: evaluation.introduced,
+        existingConflicts: evaluation.existing,
+        rulesEvaluated: localSodRules.length,
+        currentEntitlementCount: current.length,
+        complete,
+        ...(complete
+          ? {}
+          : {
+              warning:
+                `Only the first ${current.length} current entitlements were checked; ` +
+                "raise SAVIYNT_MAX_PAGES to check all of them.",
+            }),
+        requested,
+      });
     }
   );
 
@@ -1551,7 +2918,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         body,
       });
       return okResult(result);
-    }
+    },
+    { write: true }
   );
 
   registerTool(
@@ -1577,7 +2945,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { write: true }
   );
 
   registerTool(
@@ -1603,7 +2972,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { write: true }
   );
 
   registerTool(
@@ -1631,7 +3001,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         },
       });
       return okResult(result);
-    }
+    },
+    { confirm: true }
   );
 
   registerTool(
@@ -1691,7 +3062,199 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
         requestId,
         result,
       });
+    },
+    { confirm: true }
+  );
+
+  /** Request IDs matching a batch filter; `application` and `olderThanDays` are applied locally. */
+  const findRequestIdsForBatch = async (filter: JsonObject, limit: number): Promise<string[]> => {
+    const page = await paginate({
+      fetchPage: (offset, max) =>
+        callSaviyntApi({
+          endpoint: "/ECM/api/listAccessRequests",
+          method: "POST",
+          body: {
+            status: asString(filter.status) || "PENDING",
+            requestor: asString(filter.requestor),
+            offset,
+            max,
+          },
+        }),
+      offset: 0,
+      pageSize: DEFAULT_PAGE_SIZE,
+      maxPages: positiveIntFromEnv(process.env.SAVIYNT_MAX_PAGES, DEFAULT_MAX_PAGES),
+    });
+    const application = asString(filter.application)?.toLowerCase();
+    const olderThanDays = asNumber(filter.olderThanDays);
+    const ids: string[] = [];
+    for (const raw of page.items.filter(isRecord)) {
+      const request = normalizeAccessRequest(raw);
+      const requestApplication = pick(
+        raw,
+        "application",
+        "applicationname",
+        "endpoint",
+        "endpointname"
+      );
+      if (application && requestApplication?.toLowerCase() !== application) {
+        continue;
+      }
+      if (olderThanDays !== undefined) {
+        const submittedAt = Date.parse(asString(request.submittedAt) || "");
+        if (Number.isNaN(submittedAt) || Date.now() - submittedAt < olderThanDays * DAY_MS) {
+          continue;
+        }
+      }
+      const id = asString(request.id) || asString(request.key);
+      if (id) {
+        ids.push(id);
+      }
+      // One extra ID is enough to tell that the filter matches too many requests.
+      if (ids.length > limit) {
+        break;
+      }
     }
+    return ids;
+  };
+
+  registerTool(
+    "saviynt_batch_decide_requests",
+    "Approve or reject many access requests in one call, by ID list or filter, with " +
+      "per-request outcomes.",
+    {
+      decision: z.enum(["approve", "reject"]),
+      requestIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+      filter: z
+        .object({
+          status: z.string().optional().describe("Default: PENDING"),
+          requestor: z.string().optional(),
+          application: z.string().optional().describe("Application/endpoint name"),
+          olderThanDays: z.number().min(0).optional().describe("Only requests submitted earlier"),
+        })
+        .optional()
+        .describe("Select requests from listAccessRequests instead of passing requestIds"),
+      comments: z.string().optional().describe("Approver comments or rejection reason"),
+      maxRequests: z
+        .number()
+        .int()
+        .positive()
+        .max(500)
+        .optional()
+        .describe(`Refuse batches larger than this. Default: ${DEFAULT_BATCH_MAX_REQUESTS}`),
+      concurrency: z
+        .number()
+        .int()
+        .positive()
+        .max(10)
+        .optional()
+        .describe(`Default: ${DEFAULT_BATCH_CONCURRENCY}`),
+      maxErrors: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe(
+          `Stop starting new decisions after more than this many failures. ` +
+            `Default: ${DEFAULT_BATCH_MAX_ERRORS}`
+        ),
+    },
+    async (args, context) => {
+      const decision = args.decision === "reject" ? "reject" : "approve";
+      const filter = asObject(args.filter);
+      if (Array.isArray(args.requestIds) === Boolean(filter)) {
+        return errorResult("Pass either 'requestIds' or 'filter'.");
+      }
+      const maxRequests = asNumber(args.maxRequests) || DEFAULT_BATCH_MAX_REQUESTS;
+      const requestIds = filter
+        ? await findRequestIdsForBatch(filter, maxRequests)
+        : Array.from(new Set(args.requestIds as string[]));
+      if (requestIds.length > maxRequests) {
+        return errorResult(
+          `More than ${maxRequests} requests selected. Narrow the selection or raise maxRequests.`,
+          { maxRequests }
+        );
+      }
+      if (requestIds.length === 0) {
+        return okResult({ success: true, decision, total: 0, outcomes: [] });
+      }
+
+      // Reads are done; every call from here on is a decision.
+      ensureWritesEnabled("saviynt_batch_decide_requests");
+      const endpoint =
+        decision === "approve" ? "/ECM/api/approveAccessRequest" : "/ECM/api/rejectAccessRequest";
+      const comments = asString(args.comments);
+      const profile = resolveProfileForRequest(context.profileId);
+      const baseUrl = resolveBaseUrl(undefined, profile);
+      // Checked once up front so a denial fails the batch instead of every item.
+      assertWriteAllowed("POST", endpoint, profile?.profileId);
+      if (context.dryRun) {
+        return okResult({
+          success: true,
+          dryRun: true,
+          tool: "saviynt_batch_decide_requests",
+          profileId: profile?.profileId || null,
+          baseUrl,
+          decision,
+          request: { method: "POST", url: new URL(endpoint, baseUrl).toString() },
+          requestIds,
+          comments: comments ?? null,
+        });
+      }
+      // One confirmation covers the whole batch, bound to the exact request IDs.
+      await assertWriteConfirmed(
+        "POST",
+        new URL(endpoint, baseUrl),
+        { requestIds, comments },
+        profile?.profileId,
+        baseUrl
+      );
+      context.requiresConfirmation = false;
+
+      const batch = await runBatch(
+        requestIds,
+        {
+          concurrency: asNumber(args.concurrency) || DEFAULT_BATCH_CONCURRENCY,
+          maxErrors: asNumber(args.maxErrors) ?? DEFAULT_BATCH_MAX_ERRORS,
+          deadline: getDeadline() - retryPolicy.timeoutMs,
+          signal: context.signal,
+        },
+        async (requestId) => {
+          const result = await callSaviyntApi({
+            endpoint,
+            method: "POST",
+            body: {
+              requestId,
+              approverComments: decision === "approve" ? comments : undefined,
+              rejectionReason: decision === "reject" ? comments : undefined,
+            },
+          });
+          // Saviynt reports some failures as HTTP 200 with a non-zero errorCode.
+          const errorCode = isRecord(result) ? result.errorCode : undefined;
+          if (isRecord(result) && errorCode !== undefined && String(errorCode) !== "0") {
+            throw new Error(asString(result.msg) || asString(result.message) || asJsonText(result));
+          }
+          return result;
+        }
+      );
+
+      return okResult({
+        success: batch.failed === 0 && batch.skipped === 0,
+        decision,
+        total: requestIds.length,
+        succeeded: batch.succeeded,
+        failed: batch.failed,
+        skipped: batch.skipped,
+        stopReason: batch.stopReason,
+        outcomes: batch.outcomes.map((outcome) => ({
+          requestId: outcome.item,
+          status: outcome.status,
+          message:
+            outcome.error ??
+            (isRecord(outcome.result) ? asString(outcome.result.msg) ?? null : null),
+        })),
+      });
+    },
+    { confirm: true }
   );
 
   const passthroughObject = z.object({}).passthrough();
@@ -1708,6 +3271,13 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     args: JsonObject
   ): Promise<CallToolResult> => {
     ensureWritesEnabled(toolName);
+    if (args.payload !== undefined && args.rawPayload !== undefined) {
+      return errorResult("Pass either 'payload' or 'rawPayload', not both.");
+    }
+    const body = asObject(args.rawPayload) || asObject(args.payload);
+    if (!body) {
+      return errorResult("Missing required argument: payload");
+    }
 
     const apiPath = resolveApiPath(asString(args.apiPath));
     const endpoint = `/ECM/${apiPath}/${operationPath}`;
@@ -1716,7 +3286,7 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       endpoint,
       method,
       query: asObject(args.params),
-      body: asObject(args.payload),
+      body,
       baseUrl: asString(args.url),
       requiresAuth: true,
     });
@@ -1734,15 +3304,22 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     name: string,
     description: string,
     method: HttpMethod,
-    operationPath: string
+    operationPath: string,
+    options: { confirm?: boolean } = {}
   ): void => {
     registerTool(
       name,
       description,
       {
-        payload: passthroughObject
+        payload: V5_PAYLOAD_SCHEMAS[operationPath]
+          .optional()
+          .describe("Request body; checked against the operation's fields before sending"),
+        rawPayload: passthroughObject
           .optional()
-          .describe("JSON request body exactly as required by your Saviynt endpoint"),
+          .describe(
+            "Request body sent as-is, without local checks. Use instead of payload for fields " +
+              "or API versions the payload schema does not cover."
+          ),
         params: passthroughObject.optional().describe("Optional query parameters"),
         apiPath: z
           .string()
@@ -1750,7 +3327,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
           .describe("Optional API path override. Default: api/v5"),
         url: z.string().url().optional().describe("Optional base URL override"),
       },
-      async (args) => runV5WriteTool(name, method, operationPath, args)
+      async (args) => runV5WriteTool(name, method, operationPath, args),
+      { ...options, write: true }
     );
   };
 
@@ -1770,7 +3348,13 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     "updateAccount"
   );
   registerV5WriteTool("saviynt_add_role", "Add role via /addrole.", "POST", "addrole");
-  registerV5WriteTool("saviynt_remove_role", "Remove role via /removerole.", "POST", "removerole");
+  registerV5WriteTool(
+    "saviynt_remove_role",
+    "Remove role via /removerole.",
+    "POST",
+    "removerole",
+    { confirm: true }
+  );
   registerV5WriteTool(
     "saviynt_create_endpoint",
     "Create endpoint via /createEndpoint.",
@@ -1811,7 +3395,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     "saviynt_delete_organization",
     "Delete organization via /deleteOrganization.",
     "POST",
-    "deleteOrganization"
+    "deleteOrganization",
+    { confirm: true }
   );
   registerV5WriteTool(
     "saviynt_create_update_entitlement",
@@ -1841,7 +3426,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     "saviynt_delete_user_group",
     "Delete user group via /deleteUserGroup.",
     "POST",
-    "deleteUserGroup"
+    "deleteUserGroup",
+    { confirm: true }
   );
   registerV5WriteTool(
     "saviynt_create_dataset",
@@ -1859,7 +3445,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
     "saviynt_delete_dataset",
     "Delete dataset via /deleteDataset.",
     "POST",
-    "deleteDataset"
+    "deleteDataset",
+    { confirm: true }
   );
 
   const createResourceHandler = async (args: JsonObject): Promise<CallToolResult> => {
@@ -1957,7 +3544,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       params: passthroughObject.optional().describe("Optional query parameters"),
       url: z.string().url().optional().describe("Optional base URL override"),
     },
-    createResourceHandler
+    createResourceHandler,
+    { write: true }
   );
 
   registerTool(
@@ -1969,7 +3557,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       params: passthroughObject.optional(),
       url: z.string().url().optional(),
     },
-    createResourceHandler
+    createResourceHandler,
+    { write: true }
   );
 
   registerTool(
@@ -1982,7 +3571,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       params: passthroughObject.optional().describe("Optional query parameters"),
       url: z.string().url().optional().describe("Optional base URL override"),
     },
-    modifyResourceHandler
+    modifyResourceHandler,
+    { write: true }
   );
 
   registerTool(
@@ -1995,7 +3585,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       params: passthroughObject.optional(),
       url: z.string().url().optional(),
     },
-    modifyResourceHandler
+    modifyResourceHandler,
+    { write: true }
   );
 
   registerTool(
@@ -2008,7 +3599,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       body: passthroughObject.optional().describe("Optional request payload"),
       url: z.string().url().optional().describe("Optional base URL override"),
     },
-    deleteResourceHandler
+    deleteResourceHandler,
+    { confirm: true }
   );
 
   registerTool(
@@ -2021,7 +3613,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       body: passthroughObject.optional(),
       url: z.string().url().optional(),
     },
-    deleteResourceHandler
+    deleteResourceHandler,
+    { confirm: true }
   );
 
   const rawRequestHandler = async (args: JsonObject): Promise<CallToolResult> => {
@@ -2066,7 +3659,8 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       body: passthroughObject.optional(),
       url: z.string().url().optional(),
     },
-    rawRequestHandler
+    rawRequestHandler,
+    { confirm: true }
   );
 
   registerTool(
@@ -2079,8 +3673,392 @@ export function createSaviyntMcpServer(options: CreateSaviyntServerOptions = {})
       body: passthroughObject.optional(),
       url: z.string().url().optional(),
     },
-    rawRequestHandler
+    rawRequestHandler,
+    { confirm: true }
+  );
+
+  const openApiOperations = options.openApiOperations ?? getOpenApiOperationsFromEnvironment();
+  // Hand-written tools take precedence over generated ones of the same name.
+  for (const operation of openApiOperations) {
+    if (registeredToolNames.has(operation.toolName)) {
+      continue;
+    }
+    registerTool(
+      operation.toolName,
+      operation.description,
+      operation.inputSchema,
+      async (args) => {
+        if (operation.write) {
+          ensureWritesEnabled(operation.toolName);
+        }
+        let endpoint = operation.path;
+        for (const name of operation.pathParams) {
+          const value = asString(args[name]);
+          if (!value) {
+            return errorResult(`Missing required argument: ${name}`);
+          }
+          endpoint = endpoint.replace(`{${name}}`, encodeURIComponent(value));
+        }
+        const result = await callSaviyntApi({
+          endpoint,
+          method: operation.method,
+          query: asObject(args.params),
+          body: asObject(args.payload),
+        });
+        return okResult(result);
+      },
+      operation.write ? { write: true, confirm: operation.destructive } : { shape: true }
+    );
+  }
+
+  const jsonContents = (uri: URL, text: string): ReadResourceResult => ({
+    contents: [{ uri: uri.toString(), mimeType: "application/json", text }],
+  });
+
+  /**
+   * Runs the Saviynt lookup behind a resource read or listing with the same
+   * profile resolution, access policy and audit record as `toolName`.
+   */
+  const runAsTool = async <T>(
+    toolName: string,
+    profileId: string | undefined,
+    extra: ResourceExtra,
+    args: JsonObject,
+    lookup: () => Promise<T>,
+    cache?: CacheToolOptions
+  ): Promise<T> => {
+    const context: ToolCallContext = {
+      profileId,
+      caller: callerFromAuthInfo(extra.authInfo),
+      toolName,
+      apiCalls: [],
+      deadline: Date.now() + retryPolicy.budgetMs,
+      cache,
+      signal: extra.signal,
+    };
+    return toolCallContext.run(context, async () => {
+      const startedAt = Date.now();
+      try {
+        await loadFromStores();
+        if (accessPolicy) {
+          const decision = accessPolicy.checkTool(context.caller, toolName);
+          if (!decision.allowed) {
+            throw new PolicyDeniedError(decision.reason || "Tool denied by policy.", {
+              caller: context.caller?.subject || null,
+            });
+          }
+        }
+        const value = await lookup();
+        await flushStoreWrites();
+        await recordAudit(context, args, "success", startedAt, { content: [] });
+        return value;
+      } catch (error) {
+        await flushStoreWrites().catch(() => undefined);
+        const status: AuditStatus =
+          error instanceof PolicyDeniedError
+            ? "denied"
+            : error instanceof LoginRequiredError
+              ? "login_required"
+              : "error";
+        await recordAudit(
+          context,
+          args,
+          status,
+          startedAt,
+          errorResult("Resource read failed", toErrorMessage(error))
+        );
+        throw error;
+      }
+    });
+  };
+
+  const entityUri = (profileId: string, collection: string, id: string): string =>
+    `${ENTITY_URI_SCHEME}//${encodeURIComponent(profileId)}/${collection}/${encodeURIComponent(id)}`;
+
+  /** Reads one entity out of a Saviynt list response, or fails with a not-found error. */
+  const readListedEntity = async (
+    label: string,
+    profileId: string,
+    id: string,
+    request: ApiRequestOptions,
+    keys: string[]
+  ): Promise<JsonObject> => {
+    const record = findRecord(await callSaviyntApi({ ...request, profileId }), id, keys);
+    if (!record) {
+      throw new Error(`${label} '${id}' was not found in profile '${profileId}'.`);
+    }
+    return record;
+  };
+
+  /**
+   * Lists the entities of a collection for the caller's default profile.
+   * Listing is best effort: a profile that is not logged in yields no entries
+   * instead of failing resources/list for every other template.
+   */
+  const listEntities = async (
+    extra: ResourceExtra,
+    toolName: string,
+    collection: string,
+    endpoint: string,
+    keys: string[],
+    cache: CacheToolOptions
+  ): Promise<ListResourcesResult> => {
+    try {
+      return await runAsTool(
+        toolName,
+        undefined,
+        extra,
+        { collection },
+        async () => {
+          const profile = resolveProfileForRequest();
+          if (!profile) {
+            return { resources: [] };
+          }
+          const response = await callSaviyntApi({
+            endpoint,
+            method: "POST",
+            body: {},
+            profileId: profile.profileId,
+          });
+          const resources = extractPage(response)
+            .items.filter(isRecord)
+            .flatMap((item) => {
+              const id = pick(item, ...keys);
+              return id
+                ? [{ uri: entityUri(profile.profileId, collection, id), name: id }]
+                : [];
+            });
+          return { resources };
+        },
+        cache
+      );
+    } catch {
+      return { resources: [] };
+    }
+  };
+
+  const variable = (value: string | string[] | undefined): string =>
+    decodeURIComponent(Array.isArray(value) ? value[0] || "" : value || "");
+
+  server.registerResource(
+    "saviynt-user",
+    new ResourceTemplate(`${ENTITY_URI_SCHEME}//{profileId}/users/{userId}`, { list: undefined }),
+    {
+      description: "A Saviynt user record, as returned by /ECM/api/getUser.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      const profileId = variable(variables.profileId);
+      const userId = variable(variables.userId);
+      const user = await runAsTool(
+        "saviynt_get_user_profile",
+        profileId,
+        extra,
+        { uri: uri.toString() },
+        () =>
+          callSaviyntApi({
+            endpoint: "/ECM/api/getUser",
+            method: "POST",
+            body: { userId },
+            profileId,
+          })
+      );
+      return jsonContents(uri, asJsonText(user));
+    }
+  );
+
+  server.registerResource(
+    "saviynt-application",
+    new ResourceTemplate(`${ENTITY_URI_SCHEME}//{profileId}/applications/{appId}`, {
+      list: (extra) =>
+        listEntities(
+          extra,
+          "saviynt_list_applications",
+          "applications",
+          "/ECM/api/listApplications",
+          APPLICATION_KEYS,
+          CACHE_APPLICATIONS
+        ),
+    }),
+    {
+      description: "A Saviynt application, looked up through /ECM/api/listApplications.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      const profileId = variable(variables.profileId);
+      const appId = variable(variables.appId);
+      const application = await runAsTool(
+        "saviynt_list_applications",
+        profileId,
+        extra,
+        { uri: uri.toString() },
+        () =>
+          readListedEntity(
+            "Application",
+            profileId,
+            appId,
+            { endpoint: "/ECM/api/listApplications", method: "POST", body: { searchText: appId } },
+            APPLICATION_KEYS
+          ),
+        CACHE_APPLICATIONS
+      );
+      return jsonContents(uri, asJsonText(application));
+    }
+  );
+
+  server.registerResource(
+    "saviynt-endpoint",
+    new ResourceTemplate(`${ENTITY_URI_SCHEME}//{profileId}/endpoints/{endpointName}`, {
+      list: (extra) =>
+        listEntities(
+          extra,
+          "saviynt_list_endpoints",
+          "endpoints",
+          "/ECM/api/listEndpoints",
+          ENDPOINT_KEYS,
+          CACHE_ENDPOINTS
+        ),
+    }),
+    {
+      description: "A Saviynt endpoint, looked up through /ECM/api/listEndpoints.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      const profileId = variable(variables.profileId);
+      const endpointName = variable(variables.endpointName);
+      const endpoint = await runAsTool(
+        "saviynt_list_endpoints",
+        profileId,
+        extra,
+        { uri: uri.toString() },
+        () =>
+          readListedEntity(
+            "Endpoint",
+            profileId,
+            endpointName,
+            {
+              endpoint: "/ECM/api/listEndpoints",
+              method: "POST",
+              body: { searchText: endpointName },
+            },
+            ENDPOINT_KEYS
+          ),
+        CACHE_ENDPOINTS
+      );
+      return jsonContents(uri, asJsonText(endpoint));
+    }
+  );
+
+  server.registerResource(
+    "saviynt-access-request",
+    new ResourceTemplate(`${ENTITY_URI_SCHEME}//{profileId}/requests/{requestId}`, {
+      list: undefined,
+    }),
+    {
+      description: "A Saviynt access request, looked up through /ECM/api/listAccessRequests.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      const profileId = variable(variables.profileId);
+      const requestId = variable(variables.requestId);
+      const request = await runAsTool(
+        "saviynt_search_access_requests",
+        profileId,
+        extra,
+        { uri: uri.toString() },
+        () =>
+          readListedEntity(
+            "Access request",
+            profileId,
+            requestId,
+            { endpoint: "/ECM/api/listAccessRequests", method: "POST", body: { requestId } },
+            ACCESS_REQUEST_KEYS
+          )
+      );
+      return jsonContents(uri, asJsonText(request));
+    }
   );
 
+  if (resultStore) {
+    const readStoredResult = async (id: unknown, extra: ResourceExtra): Promise<StoredResult> => {
+      const stored = await resultStore.get(
+        String(id),
+        ownerOf(callerFromAuthInfo(extra.authInfo))
+      );
+      if (!stored) {
+        throw new Error(
+          `Result '${String(id)}' was not found or has expired. Call the tool again.`
+        );
+      }
+      return stored;
+    };
+
+    server.registerResource(
+      "saviynt-result",
+      new ResourceTemplate(`${RESULT_URI_SCHEME}//{id}`, {
+        list: async (extra) => ({
+          resources: (await resultStore.list(ownerOf(callerFromAuthInfo(extra.authInfo)))).map(
+            (stored) => ({
+              uri: resultStore.uri(stored),
+              name: `${stored.tool}-${stored.id}`,
+              mimeType: "application/json",
+            })
+          ),
+        }),
+      }),
+      {
+        description: "Summary of a tool result too large to return inline, with its read URIs.",
+        mimeType: "application/json",
+      },
+      async (uri, variables, extra) => {
+        const stored = await readStoredResult(variables.id, extra);
+        const summary = resultStore.summarize(stored, JSON.parse(stored.text));
+        return jsonContents(uri, asJsonText(summary));
+      }
+    );
+
+    server.registerResource(
+      "saviynt-result-chunk",
+      new ResourceTemplate(`${RESULT_URI_SCHEME}//{id}/chunks/{chunk}`, { list: undefined }),
+      {
+        description: "One text chunk (1-based) of a stored result's JSON.",
+        mimeType: "application/json",
+      },
+      async (uri, variables, extra) => {
+        const stored = await readStoredResult(variables.id, extra);
+        const chunk = resultStore.chunk(stored, Number(variables.chunk));
+        if (chunk === undefined) {
+          const chunkCount = resultStore.chunkCount(stored);
+          throw new Error(`Chunk '${String(variables.chunk)}' is out of range (1-${chunkCount}).`);
+        }
+        return jsonContents(uri, chunk);
+      }
+    );
+
+    server.registerResource(
+      "saviynt-result-rows",
+      new ResourceTemplate(`${RESULT_URI_SCHEME}//{id}/rows/{page}`, { list: undefined }),
+      {
+        description: "One page (1-based) of a stored result's rows, as a JSON array.",
+        mimeType: "application/json",
+      },
+      async (uri, variables, extra) => {
+        const stored = await readStoredResult(variables.id, extra);
+        const rows = resultStore.page(stored, Number(variables.page));
+        if (rows === undefined) {
+          const pageCount = resultStore.pageCount(stored);
+          throw new Error(
+            stored.rows
+              ? `Page '${String(variables.page)}' is out of range (1-${pageCount}).`
+              : "This result has no rows; read it by chunk instead."
+          );
+        }
+        return jsonContents(uri, asJsonText(rows));
+      }
+    );
+  }
+
+  registerWorkflowPrompts(server);
+
   return server;
 }
@@ -0,0 +1,260 @@
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  StreamableHTTPServerTransport,
+  type EventId,
+  type EventStore,
+  type StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest, type JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+const SESSION_HEADER = "mcp-session-id";
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 1000;
+const DEFAULT_MAX_EVENTS_PER_SESSION = 1000;
+
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Bounded per-session event log so a client can reconnect its SSE stream with
+ * `Last-Event-ID` and receive messages it missed.
+ */
+class MemoryEventStore implements EventStore {
+  private readonly events: StoredEvent[] = [];
+  private sequence = 0;
+
+  constructor(private readonly maxEvents: number) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    this.sequence += 1;
+    const eventId = `${streamId}_${this.sequence}`;
+    this.events.push({ eventId, streamId, message });
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.find((event) => event.eventId === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const index = this.events.findIndex((event) => event.eventId === lastEventId);
+    if (index < 0) {
+      return "";
+    }
+
+    const streamId = this.events[index].streamId;
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+    return streamId;
+  }
+}
+
+interface McpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastSeenAt: number;
+  /** Open requests (including long-lived GET streams); such sessions never idle out. */
+  inFlight: number;
+  /** Caller that created the session; other callers cannot use its ID. */
+  owner?: string;
+}
+
+export interface SessionManagerOptions {
+  /** Builds a fresh server for each session; never shared between sessions. */
+  createServer: () => McpServer;
+  idleTimeoutMs?: number;
+  maxSessions?: number;
+  maxEventsPerSession?: number;
+  /** Identifies the authenticated caller so sessions stay bound to their creator. */
+  resolveOwner?: (req: IncomingMessage) => string | undefined;
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  statusCode: number,
+  code: number,
+  message: string
+): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.statusCode = statusCode;
+  res.setHeader("content-type", "application/json");
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+function getSessionId(req: IncomingMessage): string | undefined {
+  const header = req.headers[SESSION_HEADER];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value?.trim() || undefined;
+}
+
+/** Vercel pre-parses JSON bodies; plain Node servers hand us the raw stream. */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw.trim() ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Owns one McpServer + transport per `Mcp-Session-Id`. Sessions are created by
+ * an `initialize` POST, torn down by DELETE (handled by the transport) and
+ * expired after `idleTimeoutMs` without traffic.
+ */
+export class SessionManager {
+  private readonly sessions = new Map<string, McpSession>();
+  private readonly idleTimeoutMs: number;
+  private readonly maxSessions: number;
+  private readonly maxEventsPerSession: number;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: SessionManagerOptions) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    this.maxEventsPerSession = options.maxEventsPerSession ?? DEFAULT_MAX_EVENTS_PER_SESSION;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  async handleRequest(req: IncomingMessage, res: ServerResponse, body?: unknown): Promise<void> {
+    this.sweepIdleSessions();
+
+    if (body === undefined && req.method === "POST") {
+      try {
+        body = await readJsonBody(req);
+      } catch {
+        sendJsonRpcError(res, 400, -32700, "Parse error: Invalid JSON");
+        return;
+      }
+    }
+
+    const sessionId = getSessionId(req);
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.owner !== this.options.resolveOwner?.(req)) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      session.lastSeenAt = Date.now();
+      session.inFlight += 1;
+      res.once("close", () => {
+        session.inFlight -= 1;
+        session.lastSeenAt = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    if (this.sessions.size >= this.maxSessions) {
+      sendJsonRpcError(res, 503, -32000, "Too many active MCP sessions");
+      return;
+    }
+
+    await this.createSession(req, res, body);
+  }
+
+  async closeAll(): Promise<void> {
+    const sessionIds = Array.from(this.sessions.keys());
+    await Promise.all(sessionIds.map((sessionId) => this.closeSession(sessionId)));
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private async createSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    const server = this.options.createServer();
+    const owner = this.options.resolveOwner?.(req);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new MemoryEventStore(this.maxEventsPerSession),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, {
+          server,
+          transport,
+          lastSeenAt: Date.now(),
+          inFlight: 0,
+          owner,
+        });
+        this.ensureSweepTimer();
+      },
+    });
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.get(sessionId)?.transport === transport) {
+        this.sessions.delete(sessionId);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      await transport.close().catch(() => undefined);
+      throw error;
+    }
+
+    if (!transport.sessionId) {
+      await transport.close().catch(() => undefined);
+    }
+  }
+
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    await session.transport.close().catch(() => undefined);
+    await session.server.close().catch(() => undefined);
+  }
+
+  private sweepIdleSessions(): void {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.inFlight === 0 && session.lastSeenAt < cutoff) {
+        void this.closeSession(sessionId);
+      }
+    }
+  }
+
+  private ensureSweepTimer(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+    this.sweepTimer = setInterval(
+      () => this.sweepIdleSessions(),
+      Math.min(this.idleTimeoutMs, 60 * 1000)
+    );
+    this.sweepTimer.unref();
+  }
+}
@@ -0,0 +1,141 @@
+import { readFileSync } from "node:fs";
+import { asString, isRecord, matchesAnyGlob } from "./utils.js";
+
+/**
+ * One segregation-of-duties rule: holding an entitlement that matches `left`
+ * together with one that matches `right` is a conflict. Patterns accept `*`
+ * wildcards and match, without case, either the entitlement value or
+ * `<endpoint>:<value>`, e.g. `SAP:*Vendor*`.
+ */
+export interface SodRule {
+  id: string;
+  name: string;
+  risk?: string;
+  description?: string;
+  left: string[];
+  right: string[];
+}
+
+export interface SodEntitlement {
+  id: string | null;
+  value: string;
+  endpoint: string | null;
+  /** True for entitlements being requested, false for ones already held. */
+  requested: boolean;
+}
+
+export interface SodConflict {
+  ruleId: string;
+  name: string;
+  risk: string | null;
+  description: string | null;
+  left: SodEntitlement[];
+  right: SodEntitlement[];
+}
+
+export interface SodEvaluation {
+  /** Conflicts that granting the requested entitlements would create. */
+  introduced: SodConflict[];
+  /** Conflicts the identity already has without the request. */
+  existing: SodConflict[];
+}
+
+function toPatternList(value: unknown, field: string): string[] {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some((item) => typeof item !== "string")
+  ) {
+    throw new Error(`SoD rule field '${field}' must be a non-empty array of strings.`);
+  }
+  return value as string[];
+}
+
+function parseRule(value: unknown, label: string): SodRule {
+  if (!isRecord(value)) {
+    throw new Error(`SoD ${label} must be an object.`);
+  }
+  const id = asString(value.id);
+  if (!id) {
+    throw new Error(`SoD ${label}.id is required.`);
+  }
+  return {
+    id,
+    name: asString(value.name) || id,
+    risk: asString(value.risk),
+    description: asString(value.description),
+    left: toPatternList(value.left, `${label}.left`),
+    right: toPatternList(value.right, `${label}.right`),
+  };
+}
+
+/** Accepts `{ "rules": [...] }` or a bare array of rules. */
+export function parseSodRules(value: unknown): SodRule[] {
+  const rules = isRecord(value) ? value.rules : value;
+  if (!Array.isArray(rules)) {
+    throw new Error("SoD ruleset must be an object with a 'rules' array.");
+  }
+  return rules.map((rule, index) => parseRule(rule, `rules[${index}]`));
+}
+
+function matches(patterns: string[], entitlement: SodEntitlement): boolean {
+  return (
+    matchesAnyGlob(patterns, entitlement.value, true) ||
+    (entitlement.id !== null && matchesAnyGlob(patterns, entitlement.id, true)) ||
+    (entitlement.endpoint !== null &&
+      matchesAnyGlob(patterns, `${entitlement.endpoint}:${entitlement.value}`, true))
+  );
+}
+
+function conflictFor(rule: SodRule, entitlements: SodEntitlement[]): SodConflict | null {
+  const left = entitlements.filter((entitlement) => matches(rule.left, entitlement));
+  const right = entitlements.filter((entitlement) => matches(rule.right, entitlement));
+  if (left.length === 0 || right.length === 0) {
+    return null;
+  }
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    risk: rule.risk ?? null,
+    description: rule.description ?? null,
+    left,
+    right,
+  };
+}
+
+/**
+ * Evaluates `rules` against current plus requested entitlements. A conflict
+ * counts as introduced when it does not exist with the current ones alone.
+ */
+export function evaluateSod(
+  current: SodEntitlement[],
+  requested: SodEntitlement[],
+  rules: SodRule[]
+): SodEvaluation {
+  const evaluation: SodEvaluation = { introduced: [], existing: [] };
+  for (const rule of rules) {
+    const before = conflictFor(rule, current);
+    if (before) {
+      evaluation.existing.push(before);
+      continue;
+    }
+    const after = conflictFor(rule, [...current, ...requested]);
+    if (after) {
+      evaluation.introduced.push(after);
+    }
+  }
+  return evaluation;
+}
+
+let environmentRules: SodRule[] | null | undefined;
+
+/** Ruleset from SAVIYNT_SOD_RULES_FILE; null when unset. */
+export function getSodRulesFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): SodRule[] | null {
+  if (environmentRules === undefined) {
+    const path = asString(env.SAVIYNT_SOD_RULES_FILE);
+    environmentRules = path ? parseSodRules(JSON.parse(readFileSync(path, "utf8"))) : null;
+  }
+  return environmentRules;
+}
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createSaviyntMcpServer } from "./saviynt-mcp-server.js";
+
+// stdout carries the MCP protocol, so diagnostics must go to stderr.
+async function main(): Promise<void> {
+  if (/\bstdout\b/i.test(process.env.SAVIYNT_AUDIT_SINKS || "")) {
+    throw new Error("SAVIYNT_AUDIT_SINKS=stdout would corrupt the stdio transport; use stderr or file.");
+  }
+  const server = createSaviyntMcpServer();
+  const transport = new StdioServerTransport();
+
+  const shutdown = async (): Promise<void> => {
+    try {
+      await server.close();
+    } finally {
+      process.exit(0);
+    }
+  };
+  process.on("SIGINT", () => void shutdown());
+  process.on("SIGTERM", () => void shutdown());
+
+  await server.connect(transport);
+  console.error("saviynt-api-mcp running on stdio");
+}
+
+main().catch((error) => {
+  console.error("saviynt-api-mcp failed to start:", error);
+  process.exit(1);
+});
@@ -0,0 +1,531 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { deriveKey, openText, sealText } from "./crypto.js";
+import { DEFAULT_REDIS_TIMEOUT_MS, RedisClient } from "./redis-client.js";
+import {
+  parseStoredResultInfo,
+  rowsOf,
+  type ResultBackend,
+  type StoredResult,
+  type StoredResultInfo,
+} from "./result-store.js";
+import { asString, isRecord, positiveIntFromEnv } from "./utils.js";
+
+export interface SaviyntProfileState {
+  profileId: string;
+  username: string;
+  /** Password sealed with the credential keyring; opened only to log in. */
+  sealedPassword: string;
+  /** Keyed digest of the password, used to detect credential changes. */
+  passwordFingerprint: string;
+  baseUrl: string;
+  source: "session" | "env";
+  updatedAt: number;
+}
+
+export interface SaviyntTokenState {
+  bearerToken?: string;
+  tokenExpiresAt?: number;
+}
+
+/**
+ * Persists auth profiles (and the active profile pointers) outside the process,
+ * so a profile created by one invocation is visible to the next.
+ *
+ * The active profile is kept per owner (`authMethod:subject` of the caller), so
+ * one HTTP caller's login never changes another caller's default profile.
+ * Local callers without an identity share the `undefined` owner.
+ */
+export interface ProfileStore {
+  listProfiles(): Promise<SaviyntProfileState[]>;
+  saveProfile(profile: SaviyntProfileState): Promise<void>;
+  /** Deletes the profile and clears every active pointer that names it. */
+  deleteProfile(profileId: string): Promise<void>;
+  getActiveProfileId(owner?: string): Promise<string | null>;
+  setActiveProfileId(profileId: string | null, owner?: string): Promise<void>;
+}
+
+/**
+ * Persists bearer tokens keyed by `profileId::baseUrl`.
+ */
+export interface TokenStore {
+  listTokens(): Promise<Array<[string, SaviyntTokenState]>>;
+  saveToken(key: string, token: SaviyntTokenState): Promise<void>;
+  deleteToken(key: string): Promise<void>;
+  /**
+   * Records `key` until `expiresAt` and returns false if it was already
+   * recorded. Used to accept each write confirmation token only once across
+   * invocations; stores without it fall back to process memory.
+   */
+  claimOnce?(key: string, expiresAt: number): Promise<boolean>;
+}
+
+interface StoreSnapshot {
+  /** Active profile per owner; local callers use LOCAL_OWNER. */
+  activeProfiles: Record<string, string>;
+  profiles: Record<string, SaviyntProfileState>;
+  tokens: Record<string, SaviyntTokenState>;
+  /** claimOnce keys and when they expire. */
+  claims: Record<string, number>;
+}
+
+const DEFAULT_STORE_FILE = "/tmp/saviynt-mcp-store.json";
+const DEFAULT_REDIS_PREFIX = "saviynt-mcp";
+// Owners are `authMethod:subject`, so this can never collide with a caller.
+const LOCAL_OWNER = "*";
+
+function emptySnapshot(): StoreSnapshot {
+  return { activeProfiles: {}, profiles: {}, tokens: {}, claims: {} };
+}
+
+function parseProfile(value: unknown): SaviyntProfileState | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const profileId = asString(value.profileId);
+  const username = asString(value.username);
+  const sealedPassword = asString(value.sealedPassword);
+  const passwordFingerprint = asString(value.passwordFingerprint);
+  const baseUrl = asString(value.baseUrl);
+  if (!profileId || !username || !sealedPassword || !passwordFingerprint || !baseUrl) {
+    return null;
+  }
+  return {
+    profileId,
+    username,
+    sealedPassword,
+    passwordFingerprint,
+    baseUrl,
+    source: value.source === "env" ? "env" : "session",
+    updatedAt: typeof value.updatedAt === "number" ? value.updatedAt : Date.now(),
+  };
+}
+
+function parseToken(value: unknown): SaviyntTokenState | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  return {
+    bearerToken: asString(value.bearerToken),
+    tokenExpiresAt: typeof value.tokenExpiresAt === "number" ? value.tokenExpiresAt : undefined,
+  };
+}
+
+/**
+ * Single-file store sealed with AES-256-GCM. Writes go through a temp file and
+ * rename so a crashed invocation never leaves a half-written store behind.
+ */
+export class EncryptedFileStore implements ProfileStore, TokenStore {
+  private readonly key: Buffer;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    secret: string
+  ) {
+    this.key = deriveKey(secret);
+  }
+
+  async listProfiles(): Promise<SaviyntProfileState[]> {
+    const snapshot = await this.read();
+    return Object.values(snapshot.profiles);
+  }
+
+  saveProfile(profile: SaviyntProfileState): Promise<void> {
+    return this.update((snapshot) => {
+      snapshot.profiles[profile.profileId] = profile;
+    });
+  }
+
+  deleteProfile(profileId: string): Promise<void> {
+    return this.update((snapshot) => {
+      delete snapshot.profiles[profileId];
+      for (const [owner, activeProfileId] of Object.entries(snapshot.activeProfiles)) {
+        if (activeProfileId === profileId) {
+          delete snapshot.activeProfiles[owner];
+        }
+      }
+    });
+  }
+
+  async getActiveProfileId(owner?: string): Promise<string | null> {
+    const snapshot = await this.read();
+    return snapshot.activeProfiles[owner ?? LOCAL_OWNER] || null;
+  }
+
+  setActiveProfileId(profileId: string | null, owner?: string): Promise<void> {
+    return this.update((snapshot) => {
+      if (profileId) {
+        snapshot.activeProfiles[owner ?? LOCAL_OWNER] = profileId;
+      } else {
+        delete snapshot.activeProfiles[owner ?? LOCAL_OWNER];
+      }
+    });
+  }
+
+  async listTokens(): Promise<Array<[string, SaviyntTokenState]>> {
+    const snapshot = await this.read();
+    return Object.entries(snapshot.tokens);
+  }
+
+  saveToken(key: string, token: SaviyntTokenState): Promise<void> {
+    return this.update((snapshot) => {
+      snapshot.tokens[key] = token;
+    });
+  }
+
+  deleteToken(key: string): Promise<void> {
+    return this.update((snapshot) => {
+      delete snapshot.tokens[key];
+    });
+  }
+
+  async claimOnce(key: string, expiresAt: number): Promise<boolean> {
+    let claimed = false;
+    await this.update((snapshot) => {
+      const now = Date.now();
+      for (const [claimedKey, claimExpiresAt] of Object.entries(snapshot.claims)) {
+        if (claimExpiresAt <= now) {
+          delete snapshot.claims[claimedKey];
+        }
+      }
+      claimed = !(key in snapshot.claims);
+      if (claimed) {
+        snapshot.claims[key] = expiresAt;
+      }
+    });
+    return claimed;
+  }
+
+  private async read(): Promise<StoreSnapshot> {
+    await this.queue.catch(() => undefined);
+    return this.readFromDisk();
+  }
+
+  private async readFromDisk(): Promise<StoreSnapshot> {
+    let sealed: string;
+    try {
+      sealed = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return emptySnapshot();
+      }
+      throw error;
+    }
+
+    if (!sealed.trim()) {
+      return emptySnapshot();
+    }
+
+    const parsed: unknown = JSON.parse(openText(sealed.trim(), this.key));
+    const snapshot = emptySnapshot();
+    if (!isRecord(parsed)) {
+      return snapshot;
+    }
+
+    for (const [owner, value] of Object.entries(
+      isRecord(parsed.activeProfiles) ? parsed.activeProfiles : {}
+    )) {
+      const activeProfileId = asString(value);
+      if (activeProfileId) {
+        snapshot.activeProfiles[owner] = activeProfileId;
+      }
+    }
+    for (const value of Object.values(isRecord(parsed.profiles) ? parsed.profiles : {})) {
+      const profile = parseProfile(value);
+      if (profile) {
+        snapshot.profiles[profile.profileId] = profile;
+      }
+    }
+    for (const [key, value] of Object.entries(isRecord(parsed.tokens) ? parsed.tokens : {})) {
+      const token = parseToken(value);
+      if (token) {
+        snapshot.tokens[key] = token;
+      }
+    }
+    for (const [key, value] of Object.entries(isRecord(parsed.claims) ? parsed.claims : {})) {
+      if (typeof value === "number") {
+        snapshot.claims[key] = value;
+      }
+    }
+    return snapshot;
+  }
+
+  private update(mutate: (snapshot: StoreSnapshot) => void): Promise<void> {
+    const run = async (): Promise<void> => {
+      const snapshot = await this.readFromDisk();
+      mutate(snapshot);
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, sealText(JSON.stringify(snapshot), this.key), {
+        encoding: "utf8",
+        mode: 0o600,
+      });
+      await rename(tempPath, this.filePath);
+    };
+
+    const next = this.queue.catch(() => undefined).then(run);
+    this.queue = next;
+    return next;
+  }
+}
+
+/**
+ * Store backed by any server speaking the Redis protocol. Profiles, tokens and
+ * active profile pointers live in hashes under `prefix`; every value is sealed
+ * with `secret`, so a shared or hosted Redis never sees tokens in the clear.
+ * Oversized tool results are kept here too, each under its own expiring key.
+ */
+export class RedisStore implements ProfileStore, TokenStore, ResultBackend {
+  private readonly client: RedisClient;
+  private readonly key: Buffer;
+
+  constructor(
+    url: string,
+    secret: string,
+    private readonly prefix = DEFAULT_REDIS_PREFIX,
+    timeoutMs?: number
+  ) {
+    this.client = new RedisClient(url, timeoutMs);
+    this.key = deriveKey(secret);
+  }
+
+  async listProfiles(): Promise<SaviyntProfileState[]> {
+    const entries = await this.hashEntries("profiles");
+    return entries
+      .map(([, value]) => parseProfile(value))
+      .filter((profile): profile is SaviyntProfileState => profile !== null);
+  }
+
+  async saveProfile(profile: SaviyntProfileState): Promise<void> {
+    await this.client.command(
+      "HSET",
+      this.keyFor("profiles"),
+      profile.profileId,
+      this.encode(profile)
+    );
+  }
+
+  async deleteProfile(profileId: string): Promise<void> {
+    await this.client.command("HDEL", this.keyFor("profiles"), profileId);
+    const reply = await this.client.command("HGETALL", this.keyFor("active-profiles"));
+    const owners: string[] = [];
+    if (Array.isArray(reply)) {
+      for (let index = 0; index + 1 < reply.length; index += 2) {
+        const owner = reply[index];
+        if (typeof owner === "string" && reply[index + 1] === profileId) {
+          owners.push(owner);
+        }
+      }
+    }
+    if (owners.length > 0) {
+      await this.client.command("HDEL", this.keyFor("active-profiles"), ...owners);
+    }
+  }
+
+  async getActiveProfileId(owner?: string): Promise<string | null> {
+    const value = await this.client.command(
+      "HGET",
+      this.keyFor("active-profiles"),
+      owner ?? LOCAL_OWNER
+    );
+    return typeof value === "string" && value ? value : null;
+  }
+
+  async setActiveProfileId(profileId: string | null, owner?: string): Promise<void> {
+    if (profileId) {
+      await this.client.command(
+        "HSET",
+        this.keyFor("active-profiles"),
+        owner ?? LOCAL_OWNER,
+        profileId
+      );
+    } else {
+      await this.client.command("HDEL", this.keyFor("active-profiles"), owner ?? LOCAL_OWNER);
+    }
+  }
+
+  async listTokens(): Promise<Array<[string, SaviyntTokenState]>> {
+    const entries = await this.hashEntries("tokens");
+    const tokens: Array<[string, SaviyntTokenState]> = [];
+    for (const [key, value] of entries) {
+      const token = parseToken(value);
+      if (token) {
+        tokens.push([key, token]);
+      }
+    }
+    return tokens;
+  }
+
+  async saveToken(key: string, token: SaviyntTokenState): Promise<void> {
+    await this.client.command("HSET", this.keyFor("tokens"), key, this.encode(token));
+  }
+
+  async deleteToken(key: string): Promise<void> {
+    await this.client.command("HDEL", this.keyFor("tokens"), key);
+  }
+
+  async claimOnce(key: string, expiresAt: number): Promise<boolean> {
+    const ttlMs = Math.max(1, expiresAt - Date.now());
+    const reply = await this.client.command(
+      "SET",
+      this.keyFor(`claims:${key}`),
+      "1",
+      "PX",
+      String(ttlMs),
+      "NX"
+    );
+    return reply === "OK";
+  }
+
+  async saveResult(stored: StoredResult): Promise<void> {
+    const ttlMs = String(Math.max(1, stored.expiresAt - Date.now()));
+    const info: StoredResultInfo = {
+      id: stored.id,
+      tool: stored.tool,
+      owner: stored.owner,
+      createdAt: stored.createdAt,
+      expiresAt: stored.expiresAt,
+    };
+    // Rows are rebuilt from the text on load rather than stored twice.
+    await this.client.command(
+      "SET",
+      this.keyFor(`results:${stored.id}`),
+      this.encode({ ...info, text: stored.text }),
+      "PX",
+      ttlMs
+    );
+    const index = this.keyFor(`result-index:${stored.owner ?? LOCAL_OWNER}`);
+    await this.client.command("HSET", index, stored.id, this.encode(info));
+    await this.client.command("PEXPIRE", index, ttlMs);
+  }
+
+  async loadResult(id: string): Promise<StoredResult | undefined> {
+    const raw = await this.client.command("GET", this.keyFor(`results:${id}`));
+    const record = typeof raw === "string" ? this.decode(raw) : null;
+    const info = parseStoredResultInfo(record);
+    if (!info || !isRecord(record) || typeof record.text !== "string") {
+      return undefined;
+    }
+    let value: unknown = record.text;
+    try {
+      value = JSON.parse(record.text);
+    } catch {
+      // Plain-text results have no rows.
+    }
+    return { ...info, text: record.text, rows: rowsOf(value) };
+  }
+
+  async listResults(owner?: string): Promise<StoredResultInfo[]> {
+    const index = `result-index:${owner ?? LOCAL_OWNER}`;
+    const now = Date.now();
+    const results: StoredResultInfo[] = [];
+    const expired: string[] = [];
+    for (const [id, value] of await this.hashEntries(index)) {
+      const info = parseStoredResultInfo(value);
+      if (info && info.expiresAt > now) {
+        results.push(info);
+      } else {
+        expired.push(id);
+      }
+    }
+    if (expired.length > 0) {
+      await this.client.command("HDEL", this.keyFor(index), ...expired);
+    }
+    return results;
+  }
+
+  close(): Promise<void> {
+    return this.client.close();
+  }
+
+  private keyFor(name: string): string {
+    return `${this.prefix}:${name}`;
+  }
+
+  private encode(value: unknown): string {
+    const json = JSON.stringify(value);
+    return sealText(json, this.key);
+  }
+
+  private decode(raw: string): unknown {
+    try {
+      return JSON.parse(openText(raw, this.key));
+    } catch {
+      return null;
+    }
+  }
+
+  private async hashEntries(name: string): Promise<Array<[string, unknown]>> {
+    const reply = await this.client.command("HGETALL", this.keyFor(name));
+    if (!Array.isArray(reply)) {
+      return [];
+    }
+    const entries: Array<[string, unknown]> = [];
+    for (let index = 0; index + 1 < reply.length; index += 2) {
+      const field = reply[index];
+      const raw = reply[index + 1];
+      if (typeof field === "string" && typeof raw === "string") {
+        entries.push([field, this.decode(raw)]);
+      }
+    }
+    return entries;
+  }
+}
+
+export interface SaviyntStores {
+  profileStore?: ProfileStore;
+  tokenStore?: TokenStore;
+  /** Shared home for oversized tool results; process memory when unset. */
+  resultBackend?: ResultBackend;
+}
+
+let environmentStores: SaviyntStores | null = null;
+
+/**
+ * Builds the store selected by SAVIYNT_STORE (`memory`, `file` or `redis`).
+ * The result is cached per process so warm invocations reuse connections.
+ */
+export function getStoresFromEnvironment(env: NodeJS.ProcessEnv = process.env): SaviyntStores {
+  if (environmentStores) {
+    return environmentStores;
+  }
+
+  const kind = (asString(env.SAVIYNT_STORE) || "memory").toLowerCase();
+  const secret = asString(env.SAVIYNT_STORE_KEY);
+
+  if (kind === "file") {
+    if (!secret) {
+      throw new Error("SAVIYNT_STORE=file requires SAVIYNT_STORE_KEY to encrypt the store file.");
+    }
+    // Each Vercel instance has its own /tmp, wiped on cold start.
+    if (env.VERCEL) {
+      throw new Error(
+        "SAVIYNT_STORE=file does not persist across Vercel invocations. Use SAVIYNT_STORE=redis."
+      );
+    }
+    const store = new EncryptedFileStore(asString(env.SAVIYNT_STORE_FILE) || DEFAULT_STORE_FILE, secret);
+    environmentStores = { profileStore: store, tokenStore: store };
+  } else if (kind === "redis") {
+    const url = asString(env.SAVIYNT_REDIS_URL);
+    if (!url) {
+      throw new Error("SAVIYNT_STORE=redis requires SAVIYNT_REDIS_URL.");
+    }
+    if (!secret) {
+      throw new Error("SAVIYNT_STORE=redis requires SAVIYNT_STORE_KEY to encrypt stored values.");
+    }
+    const store = new RedisStore(
+      url,
+      secret,
+      asString(env.SAVIYNT_REDIS_PREFIX),
+      positiveIntFromEnv(env.SAVIYNT_REDIS_TIMEOUT_MS, DEFAULT_REDIS_TIMEOUT_MS)
+    );
+    environmentStores = { profileStore: store, tokenStore: store, resultBackend: store };
+  } else if (kind === "memory") {
+    environmentStores = {};
+  } else {
+    throw new Error(`Unsupported SAVIYNT_STORE '${kind}'. Use memory, file or redis.`);
+  }
+
+  return environmentStores;
+}
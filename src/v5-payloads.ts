@@ -0,0 +1,251 @@
+import * as z from "zod/v4";
+
+// Request bodies of the Saviynt v5 write operations (API Reference, Chicago release).
+// Only commonly used fields are listed; other fields pass through unchecked.
+
+const required = z.string().min(1);
+const statusKey = z.enum(["0", "1"]).describe("1 active, 0 inactive");
+const ownerType = z.enum(["User", "Usergroup"]);
+const yesNo = z.enum(["true", "false"]);
+
+function optionalText(...names: string[]): Record<string, z.ZodOptional<z.ZodString>> {
+  return Object.fromEntries(names.map((name) => [name, z.string().optional()]));
+}
+
+/**
+ * Object with `shape` that also accepts `customproperty1` to
+ * `customproperty<slots>` as strings and reports any other slot by name.
+ */
+function withCustomProperties(shape: z.ZodRawShape, slots: number): z.ZodTypeAny {
+  return z
+    .object(shape)
+    .passthrough()
+    .superRefine((value, ctx) => {
+      const range = `customproperty1 to customproperty${slots}`;
+      for (const [key, field] of Object.entries(value)) {
+        const match = /^customproperty(\d+)$/i.exec(key);
+        if (!match) {
+          continue;
+        }
+        const slot = Number(match[1]);
+        if (slot < 1 || slot > slots) {
+          ctx.addIssue({
+            code: "custom",
+            path: [key],
+            message: `'${key}' is not a custom property slot; use ${range}.`,
+          });
+        } else if (typeof field !== "string") {
+          ctx.addIssue({ code: "custom", path: [key], message: `'${key}' must be a string.` });
+        }
+      }
+    })
+    .describe(`Custom property slots: customproperty1 to customproperty${slots}.`);
+}
+
+const userFields = {
+  ...optionalText(
+    "firstname",
+    "middlename",
+    "displayname",
+    "email",
+    "phonenumber",
+    "title",
+    "employeeid",
+    "employeeType",
+    "jobcode",
+    "departmentname",
+    "companyname",
+    "location",
+    "city",
+    "country",
+    "manager",
+    "startdate",
+    "enddate",
+    "password"
+  ),
+  statuskey: statusKey.optional(),
+};
+
+const accountFields = {
+  ...optionalText(
+    "accountid",
+    "displayName",
+    "description",
+    "comments",
+    "status",
+    "accounttype",
+    "username",
+    "validthrough",
+    "lastlogondate"
+  ),
+};
+
+const endpointFields = {
+  ...optionalText(
+    "displayName",
+    "description",
+    "owner",
+    "resourceOwner",
+    "accessquery",
+    "accountNameRule",
+    "connectionconfig",
+    "outOfBandAction"
+  ),
+  ownerType: ownerType.optional(),
+  resourceOwnerType: ownerType.optional(),
+  requestableapplication: yesNo.optional(),
+  enableCopyAccess: yesNo.optional(),
+  disableNewAccountRequestIfAccountExists: yesNo.optional(),
+  disableRemoveAccount: yesNo.optional(),
+  disableModifyAccount: yesNo.optional(),
+};
+
+const securitySystemFields = {
+  ...optionalText(
+    "displayName",
+    "hostname",
+    "port",
+    "connectionname",
+    "provisioningConnection",
+    "serviceDeskConnection",
+    "accessAddWorkflow",
+    "accessRemoveWorkflow",
+    "addServiceAccountWorkflow",
+    "removeServiceAccountWorkflow",
+    "proposedAccountOwnersworkflow",
+    "firefighterIDWorkflow",
+    "policyRule",
+    "policyRuleServiceAccount",
+    "provisioningcomments"
+  ),
+  automatedProvisioning: yesNo.optional(),
+  useopenconnector: yesNo.optional(),
+  reconApplication: yesNo.optional(),
+  instantprovision: yesNo.optional(),
+};
+
+const organizationFields = {
+  ...optionalText(
+    "description",
+    "organizationtype",
+    "parentorganization",
+    "risk",
+    "status",
+    "startdate",
+    "enddate",
+    "updateuser"
+  ),
+  owner: z
+    .array(z.object({ ownerName: required, rank: z.string().optional() }).passthrough())
+    .optional(),
+};
+
+const entitlementTypeFields = {
+  ...optionalText(
+    "displayname",
+    "description",
+    "workflow",
+    "orderindex",
+    "startEndDate",
+    "hierarchyRequired",
+    "requestOption"
+  ),
+  requestable: yesNo.optional(),
+};
+
+const userGroupFields = {
+  ...optionalText("description", "defaultTimeFrameHrs", "usergroupowner", "ownerType"),
+  users: z.array(z.string()).optional().describe("Usernames of the group members"),
+};
+
+const datasetFields = {
+  ...optionalText("description", "operation"),
+  values: z.array(z.string()).optional(),
+};
+
+const roleAssignment = z
+  .object({
+    username: required,
+    rolename: required,
+    ...optionalText("requestor", "startdate", "enddate", "comments"),
+  })
+  .passthrough();
+
+/** Payload schema of each v5 write operation, keyed by operation path. */
+export const V5_PAYLOAD_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  createUser: withCustomProperties({ username: required, lastname: required, ...userFields }, 65),
+  updateUser: withCustomProperties(
+    { username: required, lastname: z.string().optional(), ...userFields },
+    65
+  ),
+  createAccount: withCustomProperties(
+    { securitysystem: required, endpoint: required, name: required, ...accountFields },
+    45
+  ),
+  updateAccount: withCustomProperties(
+    { securitysystem: required, endpoint: required, name: required, ...accountFields },
+    45
+  ),
+  addrole: roleAssignment,
+  removerole: roleAssignment,
+  createEndpoint: withCustomProperties(
+    { securitysystem: required, endpointname: required, ...endpointFields },
+    45
+  ),
+  updateEndpoint: withCustomProperties(
+    { endpointname: required, securitysystem: z.string().optional(), ...endpointFields },
+    45
+  ),
+  createSecuritySystem: z
+    .object({ systemname: required, ...securitySystemFields })
+    .passthrough(),
+  updateSecuritySystem: z
+    .object({ systemname: required, ...securitySystemFields })
+    .passthrough(),
+  createOrganization: withCustomProperties(
+    { organizationname: required, ...organizationFields },
+    60
+  ),
+  updateOrganization: withCustomProperties(
+    { organizationname: required, ...organizationFields },
+    60
+  ),
+  deleteOrganization: z
+    .object({ organizationname: required, ...optionalText("username") })
+    .passthrough(),
+  createUpdateEntitlement: withCustomProperties(
+    {
+      endpoint: required,
+      entitlementtype: required,
+      entitlement_value: required,
+      ...optionalText(
+        "entitlementID",
+        "displayname",
+        "description",
+        "status",
+        "risk",
+        "module",
+        "access",
+        "priority",
+        "updatetype",
+        "entitlementOwner1"
+      ),
+      soxcritical: z.string().optional(),
+      syscritical: z.string().optional(),
+      priviliged: z.string().optional(),
+      confidentiality: z.string().optional(),
+    },
+    40
+  ),
+  createEntitlementType: z
+    .object({ endpointname: required, entitlementname: required, ...entitlementTypeFields })
+    .passthrough(),
+  updateEntitlementType: z
+    .object({ endpointname: required, entitlementname: required, ...entitlementTypeFields })
+    .passthrough(),
+  createUpdateUserGroup: z.object({ usergroupname: required, ...userGroupFields }).passthrough(),
+  deleteUserGroup: z.object({ usergroupname: required }).passthrough(),
+  createDataset: z.object({ datasetname: required, ...datasetFields }).passthrough(),
+  updateDataset: z.object({ datasetname: required, ...datasetFields }).passthrough(),
+  deleteDataset: z.object({ datasetname: required }).passthrough(),
+};
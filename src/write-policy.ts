@@ -0,0 +1,137 @@
+import { readFileSync } from "node:fs";
+import type { AccessDecision } from "./access-policy.js";
+import { asString, isRecord, matchesAnyGlob } from "./utils.js";
+
+export type WritePolicyEffect = "allow" | "deny";
+
+/**
+ * One write rule. Every matcher that is present must match the request;
+ * omitted matchers match anything. Tool, endpoint and profile entries accept
+ * `*` wildcards; endpoints are matched against the URL path, ignoring case.
+ */
+export interface WritePolicyRule {
+  effect: WritePolicyEffect;
+  tools?: string[];
+  methods?: string[];
+  endpoints?: string[];
+  profiles?: string[];
+}
+
+export interface WritePolicyDocument {
+  rules: WritePolicyRule[];
+  /** Effect when no rule matches. Omitted means deny. */
+  default?: WritePolicyEffect;
+}
+
+/** A Saviynt call made by a write tool, as seen just before it is sent. */
+export interface WriteRequest {
+  tool: string;
+  method: string;
+  endpoint: string;
+  profileId?: string;
+}
+
+function toPatternList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`Write policy field '${field}' must be an array of strings.`);
+  }
+  return value as string[];
+}
+
+function toEffect(value: unknown, field: string): WritePolicyEffect {
+  if (value !== "allow" && value !== "deny") {
+    throw new Error(`Write policy field '${field}' must be 'allow' or 'deny'.`);
+  }
+  return value;
+}
+
+function parseRule(value: unknown, label: string): WritePolicyRule {
+  if (!isRecord(value)) {
+    throw new Error(`Write policy ${label} must be an object.`);
+  }
+  return {
+    effect: toEffect(value.effect, `${label}.effect`),
+    tools: toPatternList(value.tools, `${label}.tools`),
+    methods: toPatternList(value.methods, `${label}.methods`)?.map((method) =>
+      method.toUpperCase()
+    ),
+    endpoints: toPatternList(value.endpoints, `${label}.endpoints`),
+    profiles: toPatternList(value.profiles, `${label}.profiles`),
+  };
+}
+
+export function parseWritePolicy(value: unknown): WritePolicyDocument {
+  if (!isRecord(value) || !Array.isArray(value.rules)) {
+    throw new Error("Write policy must be an object with a 'rules' array.");
+  }
+  return {
+    rules: value.rules.map((rule, index) => parseRule(rule, `rules[${index}]`)),
+    default: value.default === undefined ? undefined : toEffect(value.default, "default"),
+  };
+}
+
+function endpointPath(endpoint: string): string {
+  const path = endpoint.split(/[?#]/, 1)[0];
+  return path.startsWith("/") ? path : `/${path}`;
+}
+
+/**
+ * Decides which write calls may reach Saviynt, by tool, HTTP method, endpoint
+ * and profile. A matching `deny` rule always wins over a matching `allow`.
+ */
+export class WritePolicy {
+  constructor(private readonly document: WritePolicyDocument) {}
+
+  static fromFile(path: string): WritePolicy {
+    return new WritePolicy(parseWritePolicy(JSON.parse(readFileSync(path, "utf8"))));
+  }
+
+  check(request: WriteRequest): AccessDecision {
+    const matching = this.document.rules.filter((rule) => this.matches(rule, request));
+    const label = `${request.method} ${endpointPath(request.endpoint)} via '${request.tool}'`;
+    const profile = request.profileId ? ` on profile '${request.profileId}'` : "";
+
+    if (matching.some((rule) => rule.effect === "deny")) {
+      return { allowed: false, reason: `Write ${label}${profile} is denied by the write policy.` };
+    }
+    if (matching.length > 0 || this.document.default === "allow") {
+      return { allowed: true };
+    }
+    return { allowed: false, reason: `Write ${label}${profile} is not allowed by the write policy.` };
+  }
+
+  private matches(rule: WritePolicyRule, request: WriteRequest): boolean {
+    if (rule.tools && !matchesAnyGlob(rule.tools, request.tool)) {
+      return false;
+    }
+    if (rule.methods && !rule.methods.includes(request.method.toUpperCase())) {
+      return false;
+    }
+    if (rule.endpoints && !matchesAnyGlob(rule.endpoints, endpointPath(request.endpoint), true)) {
+      return false;
+    }
+    if (rule.profiles && !(request.profileId && matchesAnyGlob(rule.profiles, request.profileId))) {
+      return false;
+    }
+    return true;
+  }
+}
+
+let environmentPolicy: WritePolicy | null | undefined;
+
+/**
+ * Policy from SAVIYNT_WRITE_POLICY_FILE; null when unset, in which case the
+ * SAVIYNT_ENABLE_WRITE switch alone decides.
+ */
+export function getWritePolicyFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): WritePolicy | null {
+  if (environmentPolicy === undefined) {
+    const path = asString(env.SAVIYNT_WRITE_POLICY_FILE);
+    environmentPolicy = path ? WritePolicy.fromFile(path) : null;
+  }
+  return environmentPolicy;
+}
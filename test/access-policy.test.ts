@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { AccessPolicy, parseAccessPolicy } from "../src/access-policy.js";
+import type { CallerIdentity } from "../src/inbound-auth.js";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { apiKeyCaller, connect, mockSaviynt, toolError, useServiceAccount } from "./helpers.js";
+
+useServiceAccount();
+
+function caller(subject: string, groups: string[] = []): CallerIdentity {
+  return { subject, clientId: subject, authMethod: "api-key", scopes: [], groups };
+}
+
+const example = AccessPolicy.fromFile("examples/access-policy.json");
+
+test("rules match callers by subject or group and merge their grants", () => {
+  const bot = caller("ci-bot");
+  assert.equal(example.checkTool(bot, "saviynt_get_accounts").allowed, true);
+  assert.equal(example.checkTool(bot, "saviynt_create_user").allowed, false);
+  assert.equal(example.checkProfile(bot, "prod-readonly").allowed, true);
+  assert.equal(example.checkProfile(bot, "prod-approver").allowed, false);
+
+  const both = caller("dana", ["iga-approvers", "iga-admins"]);
+  assert.equal(example.checkProfile(both, "dev").allowed, true);
+  assert.equal(example.checkTool(both, "saviynt_create_user").allowed, true);
+});
+
+test("deny lists win over allow lists from any matching rule", () => {
+  const both = caller("dana", ["iga-approvers", "iga-admins"]);
+  const decision = example.checkTool(both, "saviynt_delete_user_group");
+  assert.equal(decision.allowed, false);
+  assert.equal(decision.reason, "tool 'saviynt_delete_user_group' is denied for caller 'dana'.");
+});
+
+test("callers matching no rule get the default grants, or nothing without one", () => {
+  assert.equal(example.checkTool(caller("eve"), "saviynt_list_profiles").allowed, true);
+  assert.equal(example.checkTool(caller("eve"), "saviynt_get_accounts").allowed, false);
+  assert.equal(example.checkTool(undefined, "saviynt_get_token_status").allowed, true);
+  assert.equal(example.checkProfile(undefined, "prod-readonly").allowed, false);
+
+  const strict = new AccessPolicy({ rules: [{ subjects: ["ci-bot"], tools: ["*"] }] });
+  assert.equal(strict.checkTool(caller("eve"), "saviynt_list_profiles").allowed, false);
+  const everyone = new AccessPolicy({ rules: [{ groups: ["*"], tools: ["saviynt_list_*"] }] });
+  assert.equal(everyone.checkTool(undefined, "saviynt_list_roles").allowed, true);
+});
+
+test("policy files with the wrong shape are rejected", () => {
+  assert.throws(() => parseAccessPolicy({}), /'rules' array/);
+  assert.throws(() => parseAccessPolicy({ rules: ["x"] }), /rules\[0\] must be an object/);
+  assert.throws(
+    () => parseAccessPolicy({ rules: [{ tools: "saviynt_*" }] }),
+    /'rules\[0\].tools' must be an array of strings/
+  );
+});
+
+test("the server checks the tool and the profile a call would run under", async () => {
+  const requests = mockSaviynt(() => ({ body: { applications: [] } }));
+  const accessPolicy = new AccessPolicy({
+    rules: [
+      { subjects: ["alice"], tools: ["saviynt_list_*"], profiles: ["env-default"] },
+      { subjects: ["bob"], tools: ["saviynt_list_*"], profiles: ["prod"] },
+    ],
+  });
+  const server = (subject: string) =>
+    connect(createSaviyntMcpServer({ accessPolicy }), apiKeyCaller(subject));
+
+  const alice = await server("alice");
+  const allowed = await alice.callTool({ name: "saviynt_list_applications", arguments: {} });
+  assert.equal(allowed.isError, undefined, JSON.stringify(allowed.content));
+
+  const wrongTool = await alice.callTool({ name: "saviynt_get_token_status", arguments: {} });
+  const toolDenied = toolError(wrongTool).details;
+  assert.equal(toolDenied?.code, "policy_denied");
+  assert.match(String(toolDenied?.reason), /tool 'saviynt_get_token_status'/);
+
+  const bob = await server("bob");
+  const wrongProfile = await bob.callTool({ name: "saviynt_list_applications", arguments: {} });
+  assert.equal(toolError(wrongProfile).details?.profileId, "env-default");
+
+  assert.equal(requests.filter((request) => request.path !== "/ECM/api/login").length, 1);
+});
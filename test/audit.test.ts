@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import {
+  AuditLog,
+  FileAuditSink,
+  redactArgs,
+  WebhookAuditSink,
+  type AuditRecord,
+} from "../src/audit.js";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { apiKeyCaller, connect, resultJson, toolError } from "./helpers.js";
+
+test("only whole sensitive key names are redacted", () => {
+  const redacted = [
+    "password",
+    "Password",
+    "pass",
+    "new_password",
+    "oldPassword",
+    "pwd",
+    "secret",
+    "client_secret",
+    "token",
+    "accessToken",
+    "refresh_token",
+    "confirmationToken",
+    "authorization",
+    "Authorization",
+    "apiKey",
+    "api-key",
+    "API_KEY",
+    "credential",
+    "credentials",
+    "privateKey",
+  ];
+  const visible = [
+    "bypassCache",
+    "passengerCount",
+    "compass",
+    "tokenExpiresAt",
+    "tokenizer",
+    "secretQuestion",
+    "authorizationStatus",
+    "keywords",
+    "credentialType",
+    "username",
+  ];
+  const args = Object.fromEntries([...redacted, ...visible].map((key) => [key, "value"]));
+
+  assert.deepEqual(redactArgs({ payload: args }), {
+    payload: {
+      ...Object.fromEntries(redacted.map((key) => [key, "[REDACTED]"])),
+      ...Object.fromEntries(visible.map((key) => [key, "value"])),
+    },
+  });
+});
+
+test("the file sink skips lines that are not audit records", async () => {
+  const record: AuditRecord = {
+    timestamp: "2026-10-19T10:00:00.000Z",
+    tool: "saviynt_list_profiles",
+    class: "read",
+    status: "success",
+    durationMs: 12,
+    caller: null,
+    clientId: null,
+    authMethod: null,
+    profileId: null,
+    baseUrl: null,
+    method: null,
+    endpoint: null,
+    apiCalls: [],
+    args: {},
+  };
+  const filePath = join(await mkdtemp(join(tmpdir(), "saviynt-audit-")), "audit.jsonl");
+  await writeFile(
+    filePath,
+    [
+      JSON.stringify(record),
+      JSON.stringify({ tool: "saviynt_list_profiles" }),
+      JSON.stringify({ ...record, status: "exploded" }),
+      JSON.stringify({ ...record, apiCalls: [{ method: "GET" }] }),
+      "not json",
+      JSON.stringify({ ...record, tool: "saviynt_clear_cache", error: "boom" }),
+      "",
+    ].join("\n")
+  );
+
+  const records = await new FileAuditSink(filePath).readRecent(10);
+  assert.deepEqual(
+    records.map((entry) => entry.tool),
+    ["saviynt_list_profiles", "saviynt_clear_cache"]
+  );
+});
+
+test("the webhook sink gives up on a hung endpoint after its timeout", async () => {
+  globalThis.fetch = (_input, init) =>
+    new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+    });
+  const sink = new WebhookAuditSink("https://audit.example.com/hook", undefined, 50);
+  // AbortSignal.timeout does not keep the event loop alive on its own.
+  const keepAlive = setTimeout(() => undefined, 5000);
+  const startedAt = Date.now();
+  await assert.rejects(sink.write({} as AuditRecord));
+  clearTimeout(keepAlive);
+  assert.ok(Date.now() - startedAt < 1000);
+});
+
+test("callers read only their own audit records unless they hold the audit scope", async () => {
+  const auditLog = new AuditLog([]);
+  const callAs = async (
+    subject: string,
+    scopes: string[],
+    name: string,
+    args: Record<string, unknown> = {}
+  ) => {
+    const server = createSaviyntMcpServer({ auditLog });
+    const client = await connect(server, apiKeyCaller(subject, scopes));
+    return client.callTool({ name, arguments: args });
+  };
+  const callers = (result: unknown) =>
+    resultJson<{ records: AuditRecord[] }>(result).records.map((record) => record.caller);
+  await callAs("alice", [], "saviynt_list_profiles");
+  await callAs("bob", [], "saviynt_list_profiles");
+
+  assert.deepEqual(callers(await callAs("alice", [], "saviynt_get_mcp_audit_log")), ["alice"]);
+
+  const denied = await callAs("alice", [], "saviynt_get_mcp_audit_log", { caller: "bob" });
+  assert.equal(toolError(denied).details?.code, "policy_denied");
+
+  const all = await callAs("auditor", ["saviynt:audit"], "saviynt_get_mcp_audit_log");
+  assert.deepEqual(callers(all), ["alice", "alice", "bob", "alice"]);
+  const bobOnly = await callAs("auditor", ["saviynt:audit"], "saviynt_get_mcp_audit_log", {
+    caller: "bob",
+  });
+  assert.deepEqual(callers(bobOnly), ["bob"]);
+});
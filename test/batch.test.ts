@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { runBatch } from "../src/batch.js";
+
+test("runBatch starts no new items after the signal aborts", async () => {
+  const controller = new AbortController();
+  const started: number[] = [];
+  const batch = await runBatch(
+    [1, 2, 3, 4, 5],
+    { concurrency: 1, maxErrors: 10, deadline: Date.now() + 10000, signal: controller.signal },
+    async (item) => {
+      started.push(item);
+      if (item === 2) {
+        controller.abort();
+      }
+      return item;
+    }
+  );
+
+  assert.deepEqual(started, [1, 2]);
+  assert.equal(batch.stopReason, "cancelled");
+  assert.equal(batch.succeeded, 2);
+  assert.equal(batch.skipped, 3);
+  assert.deepEqual(
+    batch.outcomes.map((outcome) => outcome.status),
+    ["succeeded", "succeeded", "skipped", "skipped", "skipped"]
+  );
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { EncryptedFileStore, type TokenStore } from "../src/stores.js";
+import { connect, mockSaviynt, resultJson, useServiceAccount } from "./helpers.js";
+
+interface ConfirmationPreview {
+  confirmationRequired: boolean;
+  confirmationToken: string;
+}
+
+useServiceAccount({ SAVIYNT_ENABLE_WRITE: "true", SAVIYNT_CREDENTIAL_KEYS: "k1:secret" });
+
+test("a confirmed write is retried after a 401 without reusing the token", async () => {
+  let deletes = 0;
+  const requests = mockSaviynt(({ path }) => {
+    if (path.endsWith("/deleteUserGroup")) {
+      deletes += 1;
+      return deletes === 1 ? { status: 401, body: {} } : { body: { errorCode: "0" } };
+    }
+    return { body: {} };
+  });
+  const client = await connect(createSaviyntMcpServer());
+  const args = { payload: { usergroupname: "contractors" } };
+
+  const preview = resultJson<ConfirmationPreview>(
+    await client.callTool({ name: "saviynt_delete_user_group", arguments: args })
+  );
+  assert.equal(preview.confirmationRequired, true);
+  assert.equal(deletes, 0);
+
+  const result = await client.callTool({
+    name: "saviynt_delete_user_group",
+    arguments: { ...args, confirmationToken: preview.confirmationToken },
+  });
+  assert.equal(result.isError, undefined, JSON.stringify(result.content));
+  assert.equal(deletes, 2);
+  assert.equal(requests.filter((request) => request.path === "/ECM/api/login").length, 2);
+
+  const replay = await client.callTool({
+    name: "saviynt_delete_user_group",
+    arguments: { ...args, confirmationToken: preview.confirmationToken },
+  });
+  assert.equal(replay.isError, true);
+  assert.match(JSON.stringify(replay.content), /already used/);
+  assert.equal(deletes, 2);
+});
+
+test("a token used on one instance is refused on another sharing the store", async () => {
+  const requests = mockSaviynt(() => ({ body: { errorCode: "0" } }));
+  const directory = await mkdtemp(join(tmpdir(), "saviynt-confirm-"));
+  const store = new EncryptedFileStore(join(directory, "store.json"), "store-secret");
+  const claims: string[] = [];
+  const tokenStore: TokenStore = {
+    listTokens: () => store.listTokens(),
+    saveToken: (key, token) => store.saveToken(key, token),
+    deleteToken: (key) => store.deleteToken(key),
+    claimOnce: (key, expiresAt) => {
+      claims.push(key);
+      return store.claimOnce(key, expiresAt);
+    },
+  };
+  // A fresh server per call, as in stateless HTTP mode.
+  const call = async (args: Record<string, unknown>) => {
+    const server = createSaviyntMcpServer({ profileStore: store, tokenStore });
+    const client = await connect(server);
+    return client.callTool({ name: "saviynt_delete_user_group", arguments: args });
+  };
+  const args = { payload: { usergroupname: "contractors" } };
+
+  const preview = resultJson<ConfirmationPreview>(await call(args));
+  const confirmed = await call({ ...args, confirmationToken: preview.confirmationToken });
+  assert.equal(confirmed.isError, undefined, JSON.stringify(confirmed.content));
+
+  const replay = await call({ ...args, confirmationToken: preview.confirmationToken });
+  assert.equal(replay.isError, true);
+  assert.match(JSON.stringify(replay.content), /already used/);
+  assert.equal(requests.filter((request) => request.path.endsWith("/deleteUserGroup")).length, 1);
+  assert.equal(claims.length, 2);
+  assert.equal(claims[0], claims[1]);
+  assert.doesNotMatch(claims[0], new RegExp(preview.confirmationToken.split(".")[0]));
+});
+
+test("writes with confirmation need a persistent keyring", () => {
+  const keys = process.env.SAVIYNT_CREDENTIAL_KEYS;
+  delete process.env.SAVIYNT_CREDENTIAL_KEYS;
+  try {
+    assert.throws(() => createSaviyntMcpServer(), /requires SAVIYNT_CREDENTIAL_KEYS/);
+    assert.doesNotThrow(() => createSaviyntMcpServer({ confirmWrites: false }));
+    assert.doesNotThrow(() => createSaviyntMcpServer({ enableWrites: false }));
+  } finally {
+    process.env.SAVIYNT_CREDENTIAL_KEYS = keys;
+  }
+});
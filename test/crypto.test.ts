@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { deriveKey, parseKeyring } from "../src/crypto.js";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { EncryptedFileStore } from "../src/stores.js";
+import { connect, mockSaviynt } from "./helpers.js";
+
+process.env.SAVIYNT_BASE_URL = "https://tenant.example.com";
+
+test("keys are read as hex, base64 or a passphrase", () => {
+  const raw = Buffer.alloc(32, 7);
+  assert.deepEqual(deriveKey(raw.toString("hex")), raw);
+  assert.deepEqual(deriveKey(raw.toString("base64")), raw);
+  assert.equal(deriveKey("correct horse").length, 32);
+  assert.notDeepEqual(deriveKey("correct horse"), deriveKey("battery staple"));
+});
+
+test("a rotated keyring opens old values and seals new ones with the new key", () => {
+  const old = parseKeyring("2026-01:old-secret");
+  const rotated = parseKeyring("2026-10:new-secret, 2026-01:old-secret");
+  const sealedBefore = old.seal("p@ssword");
+  const signature = old.sign("confirmation", "payload");
+
+  assert.equal(rotated.primaryKeyId, "2026-10");
+  assert.equal(rotated.open(sealedBefore), "p@ssword");
+  assert.equal(rotated.needsReseal(sealedBefore), true);
+  assert.equal(rotated.verify("confirmation", "payload", signature), true);
+  assert.equal(rotated.verify("other", "payload", signature), false);
+
+  const sealedAfter = rotated.seal("p@ssword");
+  assert.match(sealedAfter, /^kr1\.2026-10\./);
+  assert.equal(rotated.needsReseal(sealedAfter), false);
+  assert.throws(() => old.open(sealedAfter), /No key '2026-10'/);
+  assert.throws(() => rotated.open(`${sealedAfter.slice(0, -2)}AA`));
+  assert.equal(
+    rotated.fingerprint("p@ssword"),
+    parseKeyring("2026-10:new-secret").fingerprint("p@ssword")
+  );
+});
+
+test("the keyring refuses duplicate or malformed key ids", () => {
+  assert.equal(parseKeyring("just-a-secret").primaryKeyId, "default");
+  assert.throws(() => parseKeyring("k1:first,k1:second"), /Duplicate key id 'k1'/);
+  assert.throws(() => parseKeyring("plain-one,plain-two"), /Duplicate key id 'default'/);
+  assert.throws(() => parseKeyring("bad id:secret"), /Invalid key id/);
+  assert.throws(() => parseKeyring(" , "), /at least one key/);
+});
+
+test("stored profiles sealed with an older key are re-sealed on load", async () => {
+  const filePath = join(await mkdtemp(join(tmpdir(), "saviynt-keys-")), "store.json");
+  const store = new EncryptedFileStore(filePath, "store-secret");
+  const old = parseKeyring("2026-01:old-secret");
+  await store.saveProfile({
+    profileId: "ops",
+    username: "alice",
+    sealedPassword: old.seal("p@ssword"),
+    passwordFingerprint: old.fingerprint("p@ssword"),
+    baseUrl: "https://tenant.example.com",
+    source: "session",
+    updatedAt: Date.now(),
+  });
+  const requests = mockSaviynt(() => ({ body: { applications: [] } }));
+  const client = await connect(
+    createSaviyntMcpServer({
+      profileStore: store,
+      credentialKeyring: parseKeyring("2026-10:new-secret,2026-01:old-secret"),
+    })
+  );
+
+  const result = await client.callTool({
+    name: "saviynt_list_applications",
+    arguments: { profileId: "ops" },
+  });
+
+  assert.equal(result.isError, undefined, JSON.stringify(result.content));
+  const login = requests.find((request) => request.path === "/ECM/api/login");
+  assert.deepEqual(login?.body, { username: "alice", password: "p@ssword" });
+  const [stored] = await store.listProfiles();
+  assert.match(stored.sealedPassword, /^kr1\.2026-10\./);
+  assert.equal(parseKeyring("2026-10:new-secret").open(stored.sealedPassword), "p@ssword");
+});
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { connect, mockSaviynt, useServiceAccount } from "./helpers.js";
+
+useServiceAccount({ SAVIYNT_EXPORT_MAX_CHARS: "2000" });
+
+test("exports stop paging and drop rows at the size cap", async () => {
+  const requests = mockSaviynt(({ body }) => {
+    const { offset, max } = body as { offset: number; max: number };
+    const users = Array.from({ length: max }, (_, index) => ({
+      username: `user${offset + index}`,
+      email: `user${offset + index}@example.com`,
+    }));
+    return { body: { totalcount: 10000, userlist: users } };
+  });
+  const client = await connect(createSaviyntMcpServer());
+
+  const result = await client.callTool({
+    name: "saviynt_export_identities",
+    arguments: { pageSize: 20, maxPages: 100 },
+  });
+  const content = result.content as Array<{ type: string; text?: string; resource?: any }>;
+  const summary = JSON.parse(content[0].text || "");
+  const file: string = content[1].resource.text;
+
+  assert.equal(summary.truncated, true);
+  assert.equal(summary.complete, false);
+  assert.ok(file.length <= 2000);
+  assert.equal(file.split("\r\n").length - 2, summary.rowCount);
+  assert.ok(requests.filter((request) => request.path === "/ECM/api/getIdentities").length < 100);
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+/**
+ * Replaces global fetch with `handler`, answering Saviynt logins itself.
+ * Returns the requests seen, logins included.
+ */
+export function mockSaviynt(
+  handler: (request: RecordedRequest) => { status?: number; body: unknown }
+): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+  globalThis.fetch = async (input, init) => {
+    const url = new URL(String(input));
+    const request: RecordedRequest = {
+      method: init?.method || "GET",
+      path: url.pathname,
+      body: typeof init?.body === "string" ? JSON.parse(init.body) : undefined,
+    };
+    requests.push(request);
+    const { status = 200, body } =
+      url.pathname === "/ECM/api/login"
+        ? { body: { access_token: `token-${requests.length}`, expires_in: 3600 } }
+        : handler(request);
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json" },
+    });
+  };
+  return requests;
+}
+
+export function useServiceAccount(env: Record<string, string> = {}): void {
+  Object.assign(process.env, {
+    SAVIYNT_BASE_URL: "https://tenant.example.com",
+    SAVIYNT_SERVICE_USERNAME: "svc",
+    SAVIYNT_SERVICE_PASSWORD: "secret",
+    ...env,
+  });
+}
+
+/** Connects a client; with `authInfo`, every request arrives as that caller. */
+export async function connect(server: McpServer, authInfo?: AuthInfo): Promise<Client> {
+  const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+  if (authInfo) {
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, options) => send(message, { ...options, authInfo });
+  }
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+/**
+ * Parses the JSON text content of a tool result. `T` names the fields a test
+ * reads; nothing checks it, so keep it to what the tool documents.
+ */
+export function resultJson<T = unknown>(result: unknown): T {
+  const content = (result as { content: Array<{ type: string; text?: string }> }).content;
+  return JSON.parse(content[0].text || "null") as T;
+}
+
+export interface ToolError {
+  success: false;
+  error: string;
+  details?: Record<string, unknown>;
+}
+
+/** Parses an error result; fails the test when the call did not fail. */
+export function toolError(result: unknown): ToolError {
+  assert.equal((result as { isError?: boolean }).isError, true, "expected a tool error");
+  const parsed = resultJson(result);
+  assert.ok(
+    typeof parsed === "object" && parsed !== null && "error" in parsed,
+    "expected an error payload"
+  );
+  return parsed as ToolError;
+}
+
+/** AuthInfo as the API-key authenticator builds it for `subject`. */
+export function apiKeyCaller(subject: string, scopes: string[] = []): AuthInfo {
+  return {
+    token: `key-${subject}`,
+    clientId: subject,
+    scopes,
+    extra: { subject, authMethod: "api-key" },
+  };
+}
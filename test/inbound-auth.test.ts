@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import type { IncomingMessage } from "node:http";
+import { test } from "node:test";
+import { createInboundAuth } from "../src/inbound-auth.js";
+
+test("OAuth mode refuses to start without an explicit audience or resource URL", () => {
+  assert.throws(
+    () =>
+      createInboundAuth({
+        apiKeys: [],
+        oauth: { issuer: "https://issuer.example.com", jwksUrl: "https://issuer.example.com/jwks" },
+        requiredScopes: [],
+      }),
+    /SAVIYNT_MCP_OAUTH_AUDIENCE or SAVIYNT_MCP_RESOURCE_URL/
+  );
+  assert.doesNotThrow(() =>
+    createInboundAuth({
+      apiKeys: [],
+      oauth: { resource: "https://mcp.example.com/mcp", jwksUrl: "https://issuer.example.com/jwks" },
+      requiredScopes: [],
+    })
+  );
+});
+
+test("a failed JWKS fetch is not retried for every incoming token", async () => {
+  let fetches = 0;
+  globalThis.fetch = async () => {
+    fetches += 1;
+    return new Response("unavailable", { status: 503, statusText: "Service Unavailable" });
+  };
+  const auth = createInboundAuth({
+    apiKeys: [],
+    oauth: { resource: "https://mcp.example.com/mcp", jwksUrl: "https://issuer.example.com/jwks" },
+    requiredScopes: [],
+  });
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const token = `${encode({ alg: "RS256", kid: "k1" })}.${encode({ sub: "alice" })}.c2ln`;
+  const req = { headers: { authorization: `Bearer ${token}` } } as IncomingMessage;
+
+  await assert.rejects(auth.authenticate(req), /JWKS fetch failed: 503/);
+  await assert.rejects(auth.authenticate(req), /JWKS fetch failed: 503/);
+  assert.equal(fetches, 1);
+});
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { normalizeUserResponse } from "../src/models.js";
+
+test("normalizeUserResponse reads userdetails before sibling arrays", () => {
+  const model = normalizeUserResponse({
+    userdetails: { username: "bob", email: "bob@example.com" },
+    roles: [{ username: "notbob" }],
+  });
+  assert.equal((model.user as { username: string }).username, "bob");
+  assert.equal((model.user as { email: string }).email, "bob@example.com");
+});
+
+test("normalizeUserResponse accepts userdetails as a single-item array", () => {
+  const model = normalizeUserResponse({
+    userdetails: [{ username: "bob" }],
+    roles: [{ username: "notbob" }],
+  });
+  assert.equal((model.user as { username: string }).username, "bob");
+});
+
+test("normalizeUserResponse falls back to the list when userdetails is missing", () => {
+  const model = normalizeUserResponse({ userlist: [{ username: "alice" }] });
+  assert.equal((model.user as { username: string }).username, "alice");
+});
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import * as z from "zod/v4";
+import { parseOpenApiOperations, type OpenApiOperation } from "../src/openapi-tools.js";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { connect, mockSaviynt, useServiceAccount } from "./helpers.js";
+
+useServiceAccount();
+
+const openApi = {
+  openapi: "3.0.1",
+  servers: [{ url: "https://tenant.example.com/ECM/api/v5/" }],
+  components: {
+    schemas: {
+      Base: {
+        type: "object",
+        properties: { username: { type: "string" } },
+        required: ["username"],
+      },
+      User: {
+        allOf: [
+          { $ref: "#/components/schemas/Base" },
+          {
+            properties: {
+              statuskey: { type: "string", enum: ["0", "1"] },
+              manager: { type: "string", nullable: true },
+            },
+          },
+        ],
+      },
+    },
+  },
+  paths: {
+    "/users/{username}": {
+      parameters: [{ name: "username", in: "path", description: "Login name" }],
+      get: {
+        operationId: "getUserDetails",
+        summary: "Fetch one user",
+        parameters: [
+          { name: "attrs", in: "query", schema: { type: "array", items: { type: "string" } } },
+        ],
+      },
+      delete: { operationId: "deleteUser" },
+    },
+    "/createUser": {
+      post: {
+        operationId: "createUser",
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: { $ref: "#/components/schemas/User" } } },
+        },
+      },
+    },
+    "/fetchRoles": { post: { operationId: "fetchRoles" } },
+    "/rebuildIndex": { post: { operationId: "listIndexes", "x-mcp-read-only": false } },
+    "/legacy": { post: { operationId: "legacyCall", deprecated: true } },
+  },
+};
+
+function byName(operations: OpenApiOperation[]): Map<string, OpenApiOperation> {
+  return new Map(operations.map((operation) => [operation.toolName, operation]));
+}
+
+test("operations become snake_case tools classed as reads, writes or destructive", () => {
+  const operations = byName(parseOpenApiOperations(openApi, { prefix: "api_" }));
+
+  assert.deepEqual(Array.from(operations.keys()), [
+    "api_get_user_details",
+    "api_delete_user",
+    "api_create_user",
+    "api_fetch_roles",
+    "api_list_indexes",
+  ]);
+  const get = operations.get("api_get_user_details")!;
+  assert.equal(get.path, "/ECM/api/v5/users/{username}");
+  assert.deepEqual(get.pathParams, ["username"]);
+  assert.equal(
+    get.description,
+    "Fetch one user (GET /ECM/api/v5/users/{username}, from the OpenAPI spec)"
+  );
+  assert.deepEqual(
+    Array.from(operations.values()).map((operation) => [operation.write, operation.destructive]),
+    [
+      [false, false],
+      [true, true],
+      [true, false],
+      [false, false],
+      [true, false],
+    ]
+  );
+});
+
+test("allow and deny globs match the tool name, operationId or path", () => {
+  const names = (allow: string[], deny: string[] = []) =>
+    parseOpenApiOperations(openApi, { prefix: "api_", allow, deny }).map((op) => op.toolName);
+
+  assert.deepEqual(names(["/ECM/api/v5/users/*"], ["deleteuser"]), ["api_get_user_details"]);
+  assert.deepEqual(names(["api_fetch_*", "createUser"]), ["api_create_user", "api_fetch_roles"]);
+  assert.deepEqual(names([], ["*"]), []);
+});
+
+test("request bodies and parameters become zod input schemas", () => {
+  const operations = byName(parseOpenApiOperations(openApi, { prefix: "api_" }));
+  const create = z.object(operations.get("api_create_user")!.inputSchema);
+
+  assert.equal(create.safeParse({ payload: { username: "jdoe", manager: null } }).success, true);
+  assert.equal(create.safeParse({ payload: { statuskey: "1" } }).success, false);
+  assert.equal(create.safeParse({ payload: { username: "jdoe", statuskey: "2" } }).success, false);
+  assert.equal(create.safeParse({}).success, false);
+
+  const get = z.object(operations.get("api_get_user_details")!.inputSchema);
+  assert.equal(get.safeParse({ username: "jdoe", params: { attrs: ["email"] } }).success, true);
+  assert.equal(get.safeParse({ params: {} }).success, false);
+});
+
+test("Swagger 2 body and form parameters are read under basePath", () => {
+  const [body, form] = parseOpenApiOperations(
+    {
+      swagger: "2.0",
+      basePath: "/ECM/api",
+      paths: {
+        "/updateUser": {
+          post: {
+            operationId: "updateUser",
+            parameters: [
+              { name: "body", in: "body", required: true, schema: { type: "object" } },
+            ],
+          },
+        },
+        "/upload": {
+          post: { parameters: [{ name: "file", in: "formData", type: "string", required: true }] },
+        },
+      },
+    },
+    { prefix: "" }
+  );
+
+  assert.equal(body.path, "/ECM/api/updateUser");
+  assert.equal(z.object(body.inputSchema).safeParse({}).success, false);
+  assert.equal(form.toolName, "post_upload");
+  assert.equal(z.object(form.inputSchema).safeParse({ payload: { file: "a.csv" } }).success, true);
+  assert.throws(() => parseOpenApiOperations({ openapi: "3.0.0" }, { prefix: "" }), /'paths'/);
+  assert.throws(
+    () =>
+      parseOpenApiOperations(
+        { paths: { "/x": { post: { requestBody: { $ref: "other.json#/Body" } } } } },
+        { prefix: "" }
+      ),
+    /Unsupported OpenAPI reference/
+  );
+});
+
+test("generated tools fill path parameters and keep the write checks", async () => {
+  const requests = mockSaviynt(() => ({ body: { errorCode: "0" } }));
+  const openApiOperations = parseOpenApiOperations(openApi, { prefix: "api_" });
+  const client = await connect(createSaviyntMcpServer({ openApiOperations }));
+
+  const read = await client.callTool({
+    name: "api_get_user_details",
+    arguments: { username: "j doe", params: { attrs: ["email"] } },
+  });
+  assert.equal(read.isError, undefined, JSON.stringify(read.content));
+  const sent = requests.find((request) => request.method === "GET");
+  assert.equal(sent?.path, "/ECM/api/v5/users/j%20doe");
+
+  const write = await client.callTool({
+    name: "api_create_user",
+    arguments: { payload: { username: "jdoe" } },
+  });
+  assert.equal(write.isError, true);
+  assert.match(JSON.stringify(write.content), /Write operations are disabled/);
+  assert.equal(requests.filter((request) => request.path.endsWith("/createUser")).length, 0);
+});
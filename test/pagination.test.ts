@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { decodeCursor, encodeCursor, extractPage, paginate } from "../src/pagination.js";
+
+function rows(offset: number, count: number): Array<{ id: number }> {
+  return Array.from({ length: count }, (_, index) => ({ id: offset + index }));
+}
+
+test("a page capped below the requested size does not end the listing", async () => {
+  const offsets: number[] = [];
+  const result = await paginate({
+    // The server returns at most 20 rows whatever `max` asks for.
+    fetchPage: async (offset, max) => {
+      offsets.push(offset);
+      return { totalcount: 50, users: rows(offset, Math.min(max, 20, 50 - offset)) };
+    },
+    offset: 0,
+    pageSize: 50,
+    maxPages: 10,
+  });
+
+  assert.deepEqual(offsets, [0, 20, 40]);
+  assert.equal(result.items.length, 50);
+  assert.equal(result.totalCount, 50);
+  assert.equal(result.nextOffset, null);
+});
+
+test("without a total the listing ends on the first empty page", async () => {
+  const result = await paginate({
+    fetchPage: async (offset) => ({ count: 7, items: offset < 14 ? rows(offset, 7) : [] }),
+    offset: 0,
+    pageSize: 10,
+    maxPages: 10,
+  });
+
+  assert.equal(result.items.length, 14);
+  assert.equal(result.totalCount, undefined);
+  assert.equal(result.pagesFetched, 3);
+  assert.equal(result.nextOffset, null);
+});
+
+test("maxPages and shouldContinue leave the next offset for a cursor", async () => {
+  const fetchPage = async (offset: number, max: number) => ({
+    total: 100,
+    items: rows(offset, max),
+  });
+
+  const limited = await paginate({ fetchPage, offset: 10, pageSize: 10, maxPages: 2 });
+  assert.equal(limited.nextOffset, 30);
+
+  const stopped = await paginate({
+    fetchPage,
+    offset: 0,
+    pageSize: 10,
+    maxPages: 10,
+    shouldContinue: (items) => items.length < 25,
+  });
+  assert.equal(stopped.pagesFetched, 3);
+  assert.equal(stopped.nextOffset, 30);
+});
+
+test("count is the page size, not the total", () => {
+  assert.deepEqual(extractPage({ count: 2, roles: rows(0, 2) }), {
+    items: rows(0, 2),
+    total: undefined,
+  });
+  assert.equal(extractPage({ totalCount: "120", count: 2, roles: [] }).total, 120);
+});
+
+test("cursors round-trip and only work for the tool that issued them", () => {
+  const state = { tool: "saviynt_list_roles", offset: 40, pageSize: 20, filters: { q: "admin" } };
+  const cursor = encodeCursor(state);
+
+  assert.deepEqual(decodeCursor(cursor, "saviynt_list_roles"), state);
+  assert.throws(
+    () => decodeCursor(cursor, "saviynt_search_users"),
+    /issued by 'saviynt_list_roles'/
+  );
+  assert.throws(() => decodeCursor("not-a-cursor", "saviynt_list_roles"), /Invalid cursor/);
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { RateLimiter } from "../src/rate-limit.js";
+import { RequestCancelledError, RequestTimeoutError } from "../src/retry.js";
+
+test("a queued caller gets the slot the previous one releases", async () => {
+  const limiter = new RateLimiter({ requestsPerSecond: 100, burst: 10, maxInFlight: 1 });
+  const deadline = Date.now() + 1000;
+
+  const release = await limiter.acquire("tenant", deadline);
+  const queued = limiter.acquire("tenant", deadline);
+  assert.equal(limiter.status("tenant").queued, 1);
+
+  release();
+  release();
+  (await queued)();
+
+  const status = limiter.status("tenant");
+  assert.equal(status.inFlight, 0);
+  assert.equal(status.totalRequests, 2);
+  assert.equal(status.throttledRequests, 1);
+  assert.equal(limiter.status("other").inFlight, 0);
+});
+
+test("waits that would pass the deadline fail with a timeout", async () => {
+  const slots = new RateLimiter({ requestsPerSecond: 100, burst: 10, maxInFlight: 1 });
+  const held = await slots.acquire("tenant", Date.now() + 1000);
+  await assert.rejects(slots.acquire("tenant", Date.now() + 20), RequestTimeoutError);
+  assert.equal(slots.status("tenant").queued, 0);
+  held();
+
+  const tokens = new RateLimiter({ requestsPerSecond: 1, burst: 1, maxInFlight: 4 });
+  (await tokens.acquire("tenant", Date.now() + 100))();
+  await assert.rejects(tokens.acquire("tenant", Date.now() + 100), RequestTimeoutError);
+  assert.equal(tokens.status("tenant").inFlight, 0);
+});
+
+test("aborting the tool call stops the wait for a slot or a token", async () => {
+  const slots = new RateLimiter({ requestsPerSecond: 100, burst: 10, maxInFlight: 1 });
+  const held = await slots.acquire("tenant", Date.now() + 60000);
+  const slotController = new AbortController();
+  const waiting = slots.acquire("tenant", Date.now() + 60000, slotController.signal);
+  slotController.abort();
+  await assert.rejects(waiting, RequestCancelledError);
+  assert.equal(slots.status("tenant").queued, 0);
+  held();
+  assert.equal(slots.status("tenant").inFlight, 0);
+
+  const tokens = new RateLimiter({ requestsPerSecond: 0.1, burst: 1, maxInFlight: 4 });
+  (await tokens.acquire("tenant", Date.now() + 60000))();
+  const tokenController = new AbortController();
+  const startedAt = Date.now();
+  const refilling = tokens.acquire("tenant", Date.now() + 60000, tokenController.signal);
+  setTimeout(() => tokenController.abort(), 20);
+  await assert.rejects(refilling, RequestCancelledError);
+  assert.ok(Date.now() - startedAt < 1000);
+  assert.equal(tokens.status("tenant").inFlight, 0);
+
+  await assert.rejects(
+    tokens.acquire("tenant", Date.now() + 60000, AbortSignal.abort()),
+    RequestCancelledError
+  );
+});
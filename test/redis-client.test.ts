@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { RedisClient, RedisReplyError } from "../src/redis-client.js";
+import { startRedisStandIn } from "./redis-stand-in.js";
+
+test("the client authenticates, selects the database and decodes replies", async () => {
+  const redis = await startRedisStandIn("p@ss word");
+  const client = new RedisClient(redis.url);
+  try {
+    assert.equal(await client.command("SET", "greeting", "héllo\r\nworld"), "OK");
+    assert.equal(await client.command("GET", "greeting"), "héllo\r\nworld");
+    assert.equal(await client.command("GET", "missing"), null);
+    assert.equal(await client.command("HSET", "hash", "a", "1", "b", "2"), 2);
+    assert.deepEqual(await client.command("HGETALL", "hash"), ["a", "1", "b", "2"]);
+    await assert.rejects(client.command("NOPE"), RedisReplyError);
+    assert.deepEqual(redis.commands[0], ["AUTH", "p@ss word"]);
+    assert.deepEqual(redis.commands[1], ["SELECT", "1"]);
+  } finally {
+    await client.close();
+    await redis.close();
+  }
+});
+
+test("a rejected AUTH fails the command instead of leaving it pending", async () => {
+  const redis = await startRedisStandIn("right");
+  const client = new RedisClient(redis.url.replace("right", "wrong"));
+  try {
+    await assert.rejects(client.command("GET", "key"), /WRONGPASS/);
+  } finally {
+    await client.close();
+    await redis.close();
+  }
+});
+
+test("a command that gets no reply times out and the next one reconnects", async () => {
+  const redis = await startRedisStandIn();
+  const client = new RedisClient(redis.url, 100);
+  try {
+    redis.respond = (args) => (args[0] === "GET" ? null : undefined);
+    await assert.rejects(client.command("GET", "key"), /GET timed out after 100 ms/);
+
+    redis.respond = undefined;
+    assert.equal(await client.command("SET", "key", "value"), "OK");
+    assert.equal(await client.command("GET", "key"), "value");
+  } finally {
+    await client.close();
+    await redis.close();
+  }
+});
+
+test("an unreadable reply to AUTH fails the connection attempt", async () => {
+  const redis = await startRedisStandIn("secret");
+  redis.respond = (args) => (args[0] === "AUTH" ? "?garbage\r\n" : undefined);
+  const client = new RedisClient(redis.url, 1000);
+  try {
+    await assert.rejects(client.command("GET", "key"), /Unexpected Redis reply type/);
+  } finally {
+    await client.close();
+    await redis.close();
+  }
+});
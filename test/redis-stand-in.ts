@@ -0,0 +1,169 @@
+import { createServer, type Server, type Socket } from "node:net";
+
+export interface RedisStandIn {
+  url: string;
+  /** Raw values by key: strings, or field maps for hashes. */
+  data: Map<string, string | Map<string, string>>;
+  /** Every command received, AUTH and SELECT included. */
+  commands: string[][];
+  /**
+   * Overrides the reply to a command: a raw RESP string, `null` to never
+   * answer, or `undefined` for the normal reply.
+   */
+  respond?: (args: string[]) => string | null | undefined;
+  close(): Promise<void>;
+}
+
+function parseCommand(buffer: Buffer, offset: number): { args: string[]; offset: number } | null {
+  let cursor = offset;
+  const readLine = (): string | null => {
+    const end = buffer.indexOf("\r\n", cursor, "utf8");
+    if (end < 0) {
+      return null;
+    }
+    const line = buffer.toString("utf8", cursor, end);
+    cursor = end + 2;
+    return line;
+  };
+
+  const header = readLine();
+  if (header === null) {
+    return null;
+  }
+  const args: string[] = [];
+  for (let index = 0; index < Number.parseInt(header.slice(1), 10); index += 1) {
+    const lengthLine = readLine();
+    if (lengthLine === null) {
+      return null;
+    }
+    const length = Number.parseInt(lengthLine.slice(1), 10);
+    if (buffer.length < cursor + length + 2) {
+      return null;
+    }
+    args.push(buffer.toString("utf8", cursor, cursor + length));
+    cursor += length + 2;
+  }
+  return { args, offset: cursor };
+}
+
+function bulk(value: string | null | undefined): string {
+  return value === null || value === undefined
+    ? "$-1\r\n"
+    : `$${Buffer.byteLength(value, "utf8")}\r\n${value}\r\n`;
+}
+
+/**
+ * Minimal server speaking RESP2 for the commands the stores use, so tests can
+ * exercise RedisClient and RedisStore without a real Redis.
+ */
+export async function startRedisStandIn(password?: string): Promise<RedisStandIn> {
+  const data = new Map<string, string | Map<string, string>>();
+  const commands: string[][] = [];
+  const sockets = new Set<Socket>();
+
+  const hash = (key: string): Map<string, string> => {
+    const existing = data.get(key);
+    if (existing instanceof Map) {
+      return existing;
+    }
+    const created = new Map<string, string>();
+    data.set(key, created);
+    return created;
+  };
+
+  const execute = (args: string[], authenticated: boolean): string => {
+    const [name, key, ...rest] = args;
+    const command = name.toUpperCase();
+    if (command === "AUTH") {
+      return args[args.length - 1] === password ? "+OK\r\n" : "-WRONGPASS invalid password\r\n";
+    }
+    if (password && !authenticated) {
+      return "-NOAUTH Authentication required.\r\n";
+    }
+    switch (command) {
+      case "SELECT":
+        return "+OK\r\n";
+      case "GET": {
+        const value = data.get(key);
+        return bulk(typeof value === "string" ? value : null);
+      }
+      case "SET": {
+        const options = rest.slice(1).map((option) => option.toUpperCase());
+        if (options.includes("NX") && data.has(key)) {
+          return bulk(null);
+        }
+        data.set(key, rest[0]);
+        return "+OK\r\n";
+      }
+      case "PEXPIRE":
+        return `:${data.has(key) ? 1 : 0}\r\n`;
+      case "DEL":
+        return `:${[key, ...rest].filter((name) => data.delete(name)).length}\r\n`;
+      case "HSET": {
+        const fields = hash(key);
+        let added = 0;
+        for (let index = 0; index + 1 < rest.length; index += 2) {
+          added += fields.has(rest[index]) ? 0 : 1;
+          fields.set(rest[index], rest[index + 1]);
+        }
+        return `:${added}\r\n`;
+      }
+      case "HGET":
+        return bulk(hash(key).get(rest[0]));
+      case "HDEL":
+        return `:${rest.filter((field) => hash(key).delete(field)).length}\r\n`;
+      case "HGETALL": {
+        const entries = Array.from(hash(key).entries()).flat();
+        return `*${entries.length}\r\n${entries.map((entry) => bulk(entry)).join("")}`;
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const standIn: RedisStandIn = {
+    url: "",
+    data,
+    commands,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  };
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    let buffer = Buffer.alloc(0);
+    let authenticated = false;
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let offset = 0;
+      for (let parsed = parseCommand(buffer, offset); parsed; parsed = parseCommand(buffer, offset)) {
+        offset = parsed.offset;
+        commands.push(parsed.args);
+        const override = standIn.respond?.(parsed.args);
+        if (override === null) {
+          continue;
+        }
+        const reply = override ?? execute(parsed.args, authenticated);
+        if (parsed.args[0].toUpperCase() === "AUTH" && reply.startsWith("+")) {
+          authenticated = true;
+        }
+        socket.write(reply);
+      }
+      buffer = buffer.subarray(offset);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : 0;
+  standIn.url = password
+    ? `redis://:${encodeURIComponent(password)}@127.0.0.1:${port}/1`
+    : `redis://127.0.0.1:${port}`;
+  return standIn;
+}
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { connect, mockSaviynt, resultJson, useServiceAccount } from "./helpers.js";
+
+useServiceAccount();
+
+interface WaitResult {
+  terminal: boolean;
+  stopReason: string | null;
+  polls: number;
+  request: { status: string; currentApprovers: string[] };
+}
+
+function requestDetail(status: string, approver?: string) {
+  return {
+    requestdetails: { requestid: "1001", requestkey: "55", status },
+    approvals: approver ? [{ approver, status: "Pending" }] : [],
+  };
+}
+
+test("get sends only the identifier the caller supplied", async () => {
+  const requests = mockSaviynt(() => ({ body: requestDetail("Completed") }));
+  const client = await connect(createSaviyntMcpServer());
+
+  await client.callTool({ name: "saviynt_get_access_request", arguments: { requestId: "1001" } });
+  await client.callTool({ name: "saviynt_get_access_request", arguments: { requestKey: "55" } });
+  const missing = await client.callTool({ name: "saviynt_get_access_request", arguments: {} });
+
+  const bodies = requests
+    .filter((request) => request.path.endsWith("/fetchRequestHistoryDetails"))
+    .map((request) => request.body);
+  assert.deepEqual(bodies, [{ requestid: "1001" }, { requestkey: "55" }]);
+  assert.equal(missing.isError, true);
+});
+
+test("wait_for_request polls until a terminal status and reports progress", async () => {
+  const statuses = [requestDetail("Pending", "manager1"), requestDetail("Completed")];
+  let polls = 0;
+  mockSaviynt(() => ({ body: statuses[Math.min(polls++, statuses.length - 1)] }));
+  const client = await connect(createSaviyntMcpServer());
+  const progress: Array<{ progress: number; message?: string }> = [];
+
+  const result = resultJson<WaitResult>(
+    await client.callTool(
+      {
+        name: "saviynt_get_access_request",
+        arguments: { requestId: "1001", mode: "wait_for_request", pollIntervalSeconds: 1 },
+      },
+      undefined,
+      { onprogress: (notification) => progress.push(notification) }
+    )
+  );
+
+  assert.equal(result.terminal, true);
+  assert.equal(result.stopReason, null);
+  assert.equal(result.polls, 2);
+  assert.equal(result.request.status, "completed");
+  assert.deepEqual(
+    progress.map((notification) => [notification.progress, notification.message]),
+    [
+      [1, "Request 1001 is pending, waiting on manager1"],
+      [2, "Request 1001 is completed"],
+    ]
+  );
+});
+
+test("wait_for_request stops at its timeout with the last detail", async () => {
+  const requests = mockSaviynt(() => ({ body: requestDetail("Pending", "manager1") }));
+  const client = await connect(createSaviyntMcpServer());
+
+  const startedAt = Date.now();
+  const result = resultJson<WaitResult>(
+    await client.callTool({
+      name: "saviynt_get_access_request",
+      arguments: {
+        requestKey: "55",
+        mode: "wait_for_request",
+        timeoutSeconds: 1,
+        pollIntervalSeconds: 1,
+      },
+    })
+  );
+
+  assert.equal(result.terminal, false);
+  assert.equal(result.stopReason, "timeout");
+  assert.equal(result.polls, 1);
+  assert.equal(result.request.status, "pending");
+  assert.deepEqual(result.request.currentApprovers, ["manager1"]);
+  assert.ok(Date.now() - startedAt < 1000);
+  assert.equal(
+    requests.filter((request) => request.path.endsWith("/fetchRequestHistoryDetails")).length,
+    1
+  );
+});
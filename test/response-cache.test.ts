@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ResponseCache, type CacheKeyParts } from "../src/response-cache.js";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { connect, mockSaviynt, useServiceAccount } from "./helpers.js";
+
+useServiceAccount({ SAVIYNT_ENABLE_WRITE: "true" });
+
+const parts: CacheKeyParts = {
+  tool: "saviynt_list_roles",
+  profileId: "ops",
+  credential: "k1.fingerprint",
+  baseUrl: "https://tenant.example.com/",
+  method: "POST",
+  endpoint: "/ECM/api/v5/getRoles",
+  body: { max: 10, offset: 0 },
+};
+
+test("keys ignore body key order and a trailing slash on the base URL", () => {
+  assert.equal(
+    ResponseCache.key(parts),
+    ResponseCache.key({
+      ...parts,
+      baseUrl: "https://tenant.example.com",
+      body: { offset: 0, max: 10 },
+    })
+  );
+  assert.notEqual(
+    ResponseCache.key(parts),
+    ResponseCache.key({ ...parts, credential: "k1.other" })
+  );
+});
+
+test("entries expire, evict oldest first and skip tools with a zero TTL", async () => {
+  const cache = new ResponseCache(200, { saviynt_get_system_config: 0 }, 2);
+  const keys = ["a", "b", "c"].map((profileId) => ResponseCache.key({ ...parts, profileId }));
+  keys.forEach((key, index) => cache.set(key, parts, index, []));
+
+  assert.equal(cache.get(keys[0]), undefined);
+  assert.deepEqual(cache.get(keys[2]), { value: 2 });
+
+  const config = { ...parts, tool: "saviynt_get_system_config" };
+  cache.set(ResponseCache.key(config), config, "config", []);
+  assert.equal(cache.status().entries, 2);
+
+  await new Promise((resolve) => setTimeout(resolve, 250));
+  assert.equal(cache.get(keys[1]), undefined);
+  assert.deepEqual(cache.status(), { entries: 1, maxEntries: 2, hits: 1, misses: 2 });
+});
+
+test("writes drop matching entries on the same base URL only", () => {
+  const cache = new ResponseCache();
+  const roles = ResponseCache.key(parts);
+  const other = { ...parts, baseUrl: "https://other.example.com" };
+  cache.set(roles, parts, "roles", ["*role*"]);
+  cache.set(ResponseCache.key(other), other, "other", ["*role*"]);
+
+  assert.equal(cache.invalidateForWrite(parts.baseUrl, "/ECM/api/v5/updateUser"), 0);
+  assert.equal(cache.invalidateForWrite("https://tenant.example.com", "/ECM/API/v5/addRole"), 1);
+  assert.equal(cache.get(roles), undefined);
+  assert.equal(cache.clear({ profileId: "someone-else" }), 0);
+  assert.equal(cache.clear({ tool: "saviynt_list_roles" }), 1);
+});
+
+test("cached tools reuse responses until bypassed or invalidated by a write", async () => {
+  const requests = mockSaviynt(() => ({ body: { errorCode: "0", applications: [] } }));
+  const client = await connect(
+    createSaviyntMcpServer({ responseCache: new ResponseCache(), confirmWrites: false })
+  );
+  const lookups = () => requests.filter((request) => request.path.endsWith("/listApplications"));
+  const list = (args: Record<string, unknown> = {}) =>
+    client.callTool({ name: "saviynt_list_applications", arguments: args });
+
+  await list();
+  await list();
+  assert.equal(lookups().length, 1);
+
+  await list({ searchText: "hr" });
+  await list({ bypassCache: true });
+  assert.equal(lookups().length, 3);
+
+  const write = await client.callTool({
+    name: "saviynt_create_endpoint",
+    arguments: { payload: { securitysystem: "AD", endpointname: "AD-EU" } },
+  });
+  assert.equal(write.isError, undefined, JSON.stringify(write.content));
+  await list();
+  assert.equal(lookups().length, 4);
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  parsePath,
+  readPath,
+  shapeResult,
+  type WhereClause,
+} from "../src/result-shaping.js";
+
+const entitlements = {
+  totalcount: 4,
+  Entitlementdetails: [
+    { entitlement_value: "Admins", status: "Active", risk: "10", owner: { name: "ann" } },
+    { entitlement_value: "Readers", status: "inactive", risk: "2", owner: { name: "bob" } },
+    { entitlement_value: "Writers", status: "ACTIVE", risk: "9" },
+    { entitlement_value: "Auditors", status: "Active", risk: 30, owner: { name: "cy" } },
+  ],
+};
+
+function names(rows: unknown): string[] {
+  return (rows as Array<{ entitlement_value: string }>).map((row) => row.entitlement_value);
+}
+
+test("paths accept dots, indexes and quoted keys", () => {
+  assert.deepEqual(parsePath("$.owner.name"), ["owner", "name"]);
+  assert.deepEqual(parsePath("attributes[0].value"), ["attributes", 0, "value"]);
+  assert.deepEqual(parsePath('a["b c"]'), ["a", "b c"]);
+  assert.throws(() => parsePath("$."), /Invalid JSON path/);
+  assert.equal(readPath({ a: [{ b: 1 }] }, parsePath("a.0.b")), 1);
+  assert.equal(readPath({ a: "text" }, parsePath("a.b")), undefined);
+});
+
+test("where, sort and fields apply to the collection key and keep the rest", () => {
+  const shaped = shapeResult(entitlements, {
+    where: [{ path: "status", value: "active" }],
+    sort: ["-risk"],
+    fields: ["entitlement_value", "$.owner.name"],
+  });
+
+  assert.deepEqual(shaped, {
+    totalcount: 4,
+    Entitlementdetails: [
+      { entitlement_value: "Auditors", "owner.name": "cy" },
+      { entitlement_value: "Admins", "owner.name": "ann" },
+      { entitlement_value: "Writers" },
+    ],
+  });
+});
+
+test("operators compare numbers numerically and text without case", () => {
+  const values = (where: WhereClause[]) =>
+    names(shapeResult(entitlements.Entitlementdetails, { where }));
+
+  assert.deepEqual(values([{ path: "risk", op: "gte", value: 10 }]), ["Admins", "Auditors"]);
+  assert.deepEqual(values([{ path: "entitlement_value", op: "startsWith", value: "a" }]), [
+    "Admins",
+    "Auditors",
+  ]);
+  assert.deepEqual(values([{ path: "owner", op: "exists", value: false }]), ["Writers"]);
+  assert.deepEqual(values([{ path: "owner.name", op: "ne", value: "ann" }]), [
+    "Readers",
+    "Writers",
+    "Auditors",
+  ]);
+  assert.deepEqual(values([{ path: "owner.name", op: "in", value: ["BOB", "cy"] }]), [
+    "Readers",
+    "Auditors",
+  ]);
+});
+
+test("missing values sort last in either direction", () => {
+  const order = (sort: string[]) => names(shapeResult(entitlements.Entitlementdetails, { sort }));
+
+  assert.deepEqual(order(["owner.name"]), ["Admins", "Readers", "Auditors", "Writers"]);
+  assert.deepEqual(order(["-owner.name"]), ["Auditors", "Readers", "Admins", "Writers"]);
+});
+
+test("a single record filtered out by where becomes null", () => {
+  const user = { username: "jdoe", statuskey: "0" };
+
+  assert.equal(shapeResult(user, { where: [{ path: "statuskey", value: "1" }] }), null);
+  assert.equal(
+    shapeResult(user, { where: [{ path: "statuskey", value: "1" }], fields: ["username"] }),
+    null
+  );
+  assert.deepEqual(
+    shapeResult(user, { where: [{ path: "statuskey", value: "0" }], fields: ["username"] }),
+    { username: "jdoe" }
+  );
+});
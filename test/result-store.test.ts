@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MemoryResultBackend, ResultStore, type ResultStoreOptions } from "../src/result-store.js";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { RedisStore } from "../src/stores.js";
+import { connect, mockSaviynt, resultJson, useServiceAccount } from "./helpers.js";
+import { startRedisStandIn } from "./redis-stand-in.js";
+
+useServiceAccount({ SAVIYNT_MAX_RESULT_TEXT_CHARS: "2000" });
+
+const options: ResultStoreOptions = {
+  ttlMs: 60000,
+  maxBytes: 1024 * 1024,
+  pageRows: 10,
+  previewRows: 2,
+  chunkChars: 2000,
+};
+
+const records = Array.from({ length: 40 }, (_, index) => ({
+  username: `user${index}`,
+  email: `user${index}@example.com`,
+}));
+
+test("the memory backend counts rows as well as text against maxBytes", async () => {
+  const backend = new MemoryResultBackend(1024 * 1024);
+  const store = new ResultStore(options, backend);
+  const stored = await store.put("saviynt_search_users", { userlist: records });
+
+  const textBytes = Buffer.byteLength(stored.text);
+  const rowBytes = Buffer.byteLength(JSON.stringify(records));
+  assert.equal(backend.size, textBytes + rowBytes);
+
+  const small = new MemoryResultBackend(textBytes + rowBytes + 10);
+  const limited = new ResultStore(options, small);
+  const first = await limited.put("saviynt_search_users", { userlist: records });
+  const second = await limited.put("saviynt_search_users", { userlist: records });
+  assert.equal(await limited.get(first.id), undefined);
+  assert.ok(await limited.get(second.id));
+});
+
+test("results stored in Redis are readable from another instance", async () => {
+  const redis = await startRedisStandIn();
+  const writer = new RedisStore(redis.url, "store-secret");
+  const reader = new RedisStore(redis.url, "store-secret");
+  try {
+    const stored = await new ResultStore(options, writer).put(
+      "saviynt_search_users",
+      { userlist: records },
+      "api-key:alice"
+    );
+    const elsewhere = new ResultStore(options, reader);
+
+    const loaded = await elsewhere.get(stored.id, "api-key:alice");
+    assert.equal(loaded?.text, stored.text);
+    assert.equal(elsewhere.page(loaded!, 4)?.length, 10);
+    assert.equal(await elsewhere.get(stored.id, "api-key:bob"), undefined);
+    assert.deepEqual(
+      (await elsewhere.list("api-key:alice")).map((info) => info.id),
+      [stored.id]
+    );
+    assert.deepEqual(await elsewhere.list("api-key:bob"), []);
+    assert.doesNotMatch(String(redis.data.get(`saviynt-mcp:results:${stored.id}`)), /user1/);
+  } finally {
+    await writer.close();
+    await reader.close();
+    await redis.close();
+  }
+});
+
+test("a spilled result warns when the link may not reach the instance holding it", async () => {
+  mockSaviynt(() => ({ body: { applications: records } }));
+  const resultStore = new ResultStore({ ...options, instanceLocal: true });
+  const client = await connect(createSaviyntMcpServer({ resultStore }));
+
+  const result = await client.callTool({ name: "saviynt_list_applications", arguments: {} });
+  const summary = resultJson<{ spilled: boolean; warning: string; resourceUri: string }>(result);
+  assert.equal(summary.spilled, true);
+  assert.match(summary.warning, /held by one server instance/);
+
+  const page = await client.readResource({ uri: `${summary.resourceUri}/rows/1` });
+  const rows = JSON.parse((page.contents[0] as { text: string }).text);
+  assert.equal(rows.length, 10);
+});
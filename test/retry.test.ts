@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fetchWithRetry, RequestCancelledError, type RetryPolicy } from "../src/retry.js";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { connect, resultJson, useServiceAccount } from "./helpers.js";
+
+useServiceAccount();
+
+const policy: RetryPolicy = {
+  timeoutMs: 5000,
+  maxRetries: 3,
+  baseDelayMs: 1,
+  maxDelayMs: 1,
+  budgetMs: 10000,
+};
+
+test("a cancelled request aborts the attempt in flight and is not retried", async () => {
+  let attempts = 0;
+  globalThis.fetch = (_input, init) => {
+    attempts += 1;
+    return new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+    });
+  };
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 20);
+
+  await assert.rejects(
+    fetchWithRetry(
+      "https://tenant.example.com/ECM/api/getUser",
+      { method: "POST" },
+      policy,
+      { idempotent: true, deadline: Date.now() + 10000, signal: controller.signal },
+      (response) => response.json()
+    ),
+    RequestCancelledError
+  );
+  assert.equal(attempts, 1);
+});
+
+test("a slow login uses up the same tool call budget as the request after it", async () => {
+  globalThis.fetch = async (input, init) => {
+    if (new URL(String(input)).pathname === "/ECM/api/login") {
+      await new Promise((resolve) => setTimeout(resolve, 600));
+      return new Response(JSON.stringify({ access_token: "token", expires_in: 3600 }), {
+        headers: { "content-type": "application/json" },
+      });
+    }
+    return new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+    });
+  };
+  const client = await connect(
+    createSaviyntMcpServer({
+      retryPolicy: { ...policy, timeoutMs: 900, maxRetries: 0, budgetMs: 1000 },
+      rateLimiter: null,
+      responseCache: null,
+    })
+  );
+
+  const startedAt = Date.now();
+  const result = await client.callTool({ name: "saviynt_list_applications", arguments: {} });
+
+  assert.equal(result.isError, true);
+  assert.match(JSON.stringify(resultJson(result)), /timed out/);
+  // A fresh budget after the login would let the request run for the full 900 ms.
+  assert.ok(Date.now() - startedAt < 1300);
+});
@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import { test } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { SessionManager, type SessionManagerOptions } from "../src/sessions.js";
+import { resultJson } from "./helpers.js";
+
+const CALLER_HEADER = "x-test-caller";
+
+interface Host {
+  url: URL;
+  manager: SessionManager;
+  close(): Promise<void>;
+}
+
+async function startHost(options: Partial<SessionManagerOptions> = {}): Promise<Host> {
+  const manager = new SessionManager({
+    createServer: () => createSaviyntMcpServer({ sessionScoped: true }),
+    resolveOwner: (req) => req.headers[CALLER_HEADER]?.toString(),
+    ...options,
+  });
+  const server: Server = createServer((req, res) => {
+    void manager.handleRequest(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : 0;
+  return {
+    url: new URL(`http://127.0.0.1:${port}/mcp`),
+    manager,
+    close: async () => {
+      await manager.closeAll();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+async function connectAs(host: Host, caller: string): Promise<Client> {
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(
+    new StreamableHTTPClientTransport(host.url, {
+      requestInit: { headers: { [CALLER_HEADER]: caller } },
+    })
+  );
+  return client;
+}
+
+async function post(host: Host, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(host.url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+  return {
+    status: response.status,
+    body: (await response.json()) as { error?: { message: string } },
+  };
+}
+
+const listTools = { jsonrpc: "2.0", id: 1, method: "tools/list" };
+
+interface ProfileList {
+  activeProfileId: string | null;
+  profileCount: number;
+  profiles?: Array<{ profileId: string }>;
+}
+
+test("each session keeps its own profiles", async () => {
+  const host = await startHost();
+  try {
+    const first = await connectAs(host, "alice");
+    const second = await connectAs(host, "alice");
+    assert.equal(host.manager.size, 2);
+
+    await first.callTool({
+      name: "saviynt_upsert_profile",
+      arguments: {
+        profileId: "ops",
+        username: "svc",
+        password: "secret",
+        url: "https://tenant.example.com",
+        authenticate: false,
+      },
+    });
+
+    const mine = resultJson<ProfileList>(
+      await first.callTool({ name: "saviynt_list_profiles", arguments: {} })
+    );
+    const theirs = resultJson<ProfileList>(
+      await second.callTool({ name: "saviynt_list_profiles", arguments: {} })
+    );
+    assert.equal(mine.activeProfileId, "ops");
+    assert.deepEqual(mine.profiles?.map((profile) => profile.profileId), ["ops"]);
+    assert.equal(theirs.activeProfileId, null);
+    assert.equal(theirs.profileCount, 0);
+  } finally {
+    await host.close();
+  }
+});
+
+test("a session ID only works for the caller that created it", async () => {
+  const host = await startHost();
+  try {
+    const client = await connectAs(host, "alice");
+    const sessionId = (client.transport as StreamableHTTPClientTransport).sessionId!;
+
+    const stolen = await post(host, listTools, {
+      "mcp-session-id": sessionId,
+      [CALLER_HEADER]: "bob",
+    });
+    assert.equal(stolen.status, 404);
+    assert.equal(stolen.body.error?.message, "Session not found");
+
+    const missing = await post(host, listTools, { [CALLER_HEADER]: "alice" });
+    assert.equal(missing.status, 400);
+
+    assert.ok((await client.listTools()).tools.length > 0);
+  } finally {
+    await host.close();
+  }
+});
+
+test("sessions are capped and expire once idle", async () => {
+  const host = await startHost({ maxSessions: 1, idleTimeoutMs: 50 });
+  try {
+    const client = await connectAs(host, "alice");
+    const sessionId = (client.transport as StreamableHTTPClientTransport).sessionId!;
+    await assert.rejects(connectAs(host, "alice"), /Too many active MCP sessions/);
+
+    // An open SSE stream keeps the session alive, so drop the client first.
+    await client.close();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const expired = await post(host, listTools, {
+      "mcp-session-id": sessionId,
+      [CALLER_HEADER]: "alice",
+    });
+    assert.equal(expired.status, 404);
+    assert.equal(host.manager.size, 0);
+
+    await connectAs(host, "alice");
+    assert.equal(host.manager.size, 1);
+  } finally {
+    await host.close();
+  }
+});
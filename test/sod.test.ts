@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { connect, mockSaviynt, resultJson, useServiceAccount } from "./helpers.js";
+
+useServiceAccount();
+
+test("saviynt_check_sod_impact reads every page of current entitlements", async () => {
+  mockSaviynt(({ body }) => {
+    const { offset } = body as { offset: number };
+    const items =
+      offset === 0
+        ? Array.from({ length: 50 }, (_, index) => ({ entitlement_value: `Group ${index}` }))
+        : [{ entitlement_value: "Vendor Create", endpoint: "SAP" }];
+    return { body: { totalcount: 51, Entitlementdetails: items } };
+  });
+  const client = await connect(
+    createSaviyntMcpServer({
+      sodRules: [{ id: "P2P-1", name: "Vendor vs payment", left: ["SAP:Vendor*"], right: ["Pay*"] }],
+    })
+  );
+
+  const result = resultJson<{
+    currentEntitlementCount: number;
+    complete: boolean;
+    introducedConflicts: Array<{ ruleId: string }>;
+  }>(
+    await client.callTool({
+      name: "saviynt_check_sod_impact",
+      arguments: { identityId: "jdoe", entitlementIds: ["Payment Run"], applicationId: "SAP" },
+    })
+  );
+  assert.equal(result.currentEntitlementCount, 51);
+  assert.equal(result.complete, true);
+  assert.deepEqual(
+    result.introducedConflicts.map((conflict) => conflict.ruleId),
+    ["P2P-1"]
+  );
+});
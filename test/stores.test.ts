@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { parseKeyring } from "../src/crypto.js";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import {
+  EncryptedFileStore,
+  getStoresFromEnvironment,
+  RedisStore,
+  type ProfileStore,
+  type SaviyntProfileState,
+  type TokenStore,
+} from "../src/stores.js";
+import { apiKeyCaller, connect, mockSaviynt, resultJson } from "./helpers.js";
+import { startRedisStandIn } from "./redis-stand-in.js";
+
+process.env.SAVIYNT_BASE_URL = "https://tenant.example.com";
+
+const profile: SaviyntProfileState = {
+  profileId: "ops",
+  username: "alice",
+  sealedPassword: "k1.sealed",
+  passwordFingerprint: "k1.fingerprint",
+  baseUrl: "https://tenant.example.com",
+  source: "session",
+  updatedAt: 1700000000000,
+};
+
+async function temporaryStoreFile(): Promise<string> {
+  return join(await mkdtemp(join(tmpdir(), "saviynt-store-")), "store.json");
+}
+
+async function assertRoundTrip(store: ProfileStore & TokenStore): Promise<void> {
+  await store.saveProfile(profile);
+  await store.saveProfile({ ...profile, profileId: "audit" });
+  await store.saveToken("ops::https://tenant.example.com", {
+    bearerToken: "bearer-1",
+    tokenExpiresAt: 1700000360000,
+  });
+  await store.setActiveProfileId("ops");
+  await store.setActiveProfileId("audit", "oauth:carol");
+
+  const profiles = await store.listProfiles();
+  assert.deepEqual(
+    profiles.sort((a, b) => a.profileId.localeCompare(b.profileId)),
+    [{ ...profile, profileId: "audit" }, profile]
+  );
+  assert.deepEqual(await store.listTokens(), [
+    ["ops::https://tenant.example.com", { bearerToken: "bearer-1", tokenExpiresAt: 1700000360000 }],
+  ]);
+  assert.equal(await store.getActiveProfileId(), "ops");
+  assert.equal(await store.getActiveProfileId("oauth:carol"), "audit");
+
+  assert.equal(await store.claimOnce?.("confirmation:abc", Date.now() + 60000), true);
+  assert.equal(await store.claimOnce?.("confirmation:abc", Date.now() + 60000), false);
+  assert.equal(await store.claimOnce?.("confirmation:def", Date.now() + 60000), true);
+
+  await store.deleteToken("ops::https://tenant.example.com");
+  await store.deleteProfile("ops");
+  assert.deepEqual((await store.listProfiles()).map((stored) => stored.profileId), ["audit"]);
+  assert.deepEqual(await store.listTokens(), []);
+  assert.equal(await store.getActiveProfileId(), null);
+  assert.equal(await store.getActiveProfileId("oauth:carol"), "audit");
+}
+
+test("the encrypted file store round-trips profiles, tokens and active pointers", async () => {
+  const filePath = await temporaryStoreFile();
+  await assertRoundTrip(new EncryptedFileStore(filePath, "store-secret"));
+
+  const reopened = new EncryptedFileStore(filePath, "store-secret");
+  assert.equal(await reopened.getActiveProfileId("oauth:carol"), "audit");
+  await assert.rejects(new EncryptedFileStore(filePath, "other-secret").listProfiles());
+});
+
+test("the Redis store round-trips sealed values through the RESP stand-in", async () => {
+  const redis = await startRedisStandIn("hunter2");
+  const store = new RedisStore(redis.url, "store-secret", "test");
+  try {
+    await assertRoundTrip(store);
+
+    const stored = redis.data.get("test:profiles");
+    assert.ok(stored instanceof Map);
+    assert.doesNotMatch(Array.from(stored.values()).join(), /alice/);
+    assert.deepEqual(redis.commands.slice(0, 2), [
+      ["AUTH", "hunter2"],
+      ["SELECT", "1"],
+    ]);
+
+    const otherKey = new RedisStore(redis.url, "other-secret", "test");
+    assert.deepEqual(await otherKey.listProfiles(), []);
+    await otherKey.close();
+  } finally {
+    await store.close();
+    await redis.close();
+  }
+});
+
+test("each caller keeps its own active profile in a shared store", async () => {
+  mockSaviynt(() => ({ body: {} }));
+  const store = new EncryptedFileStore(await temporaryStoreFile(), "store-secret");
+  const options = {
+    profileStore: store,
+    tokenStore: store,
+    credentialKeyring: parseKeyring("k1:credential-secret"),
+  };
+  // A fresh server per call, as in stateless HTTP mode.
+  const callAs = async (subject: string, name: string, args: Record<string, unknown> = {}) => {
+    const client = await connect(createSaviyntMcpServer(options), apiKeyCaller(subject));
+    return resultJson<{ activeProfileId: string | null }>(
+      await client.callTool({ name, arguments: args })
+    );
+  };
+
+  await callAs("alice", "saviynt_login", { profileId: "a", username: "alice", password: "pw" });
+  await callAs("bob", "saviynt_login", { profileId: "b", username: "bob", password: "pw" });
+
+  assert.equal((await callAs("alice", "saviynt_list_profiles")).activeProfileId, "a");
+  assert.equal((await callAs("bob", "saviynt_list_profiles")).activeProfileId, "b");
+
+  await callAs("bob", "saviynt_set_active_profile", { profileId: "a" });
+  assert.equal((await callAs("bob", "saviynt_list_profiles")).activeProfileId, "a");
+  assert.equal(await store.getActiveProfileId("api-key:alice"), "a");
+
+  await store.deleteProfile("a");
+  assert.equal(await store.getActiveProfileId("api-key:alice"), null);
+  assert.equal(await store.getActiveProfileId("api-key:bob"), null);
+  assert.equal(await store.getActiveProfileId(), null);
+});
+
+test("the environment refuses stores that would leak or lose state", () => {
+  assert.throws(
+    () =>
+      getStoresFromEnvironment({ SAVIYNT_STORE: "redis", SAVIYNT_REDIS_URL: "redis://127.0.0.1" }),
+    /requires SAVIYNT_STORE_KEY/
+  );
+  assert.throws(
+    () => getStoresFromEnvironment({ SAVIYNT_STORE: "file", SAVIYNT_STORE_KEY: "k", VERCEL: "1" }),
+    /does not persist across Vercel invocations/
+  );
+});
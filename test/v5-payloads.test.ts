@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { V5_PAYLOAD_SCHEMAS } from "../src/v5-payloads.js";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { connect, mockSaviynt, resultJson, toolError, useServiceAccount } from "./helpers.js";
+
+useServiceAccount({ SAVIYNT_ENABLE_WRITE: "true" });
+
+function issues(operation: string, payload: unknown): string[] {
+  const parsed = V5_PAYLOAD_SCHEMAS[operation].safeParse(payload);
+  return parsed.success ? [] : parsed.error.issues.map((issue) => issue.path.join("."));
+}
+
+test("required fields and enums are checked, unknown fields pass through", () => {
+  assert.deepEqual(issues("createUser", { username: "jdoe" }), ["lastname"]);
+  assert.deepEqual(issues("createUser", { username: "jdoe", lastname: "Doe", statuskey: "2" }), [
+    "statuskey",
+  ]);
+  assert.deepEqual(issues("updateUser", { username: "jdoe", costcenter: 42 }), []);
+  const endpoint = { securitysystem: "AD", endpointname: "AD-EU" };
+  assert.deepEqual(issues("createEndpoint", { ...endpoint, ownerType: "Team" }), ["ownerType"]);
+  assert.deepEqual(issues("addrole", { username: "jdoe", rolename: "" }), ["rolename"]);
+  assert.deepEqual(issues("createOrganization", { organizationname: "HR", owner: [{}] }), [
+    "owner.0.ownerName",
+  ]);
+});
+
+test("custom properties must be strings in the operation's slot range", () => {
+  const user = { username: "jdoe", lastname: "Doe" };
+  assert.deepEqual(issues("createUser", { ...user, customproperty65: "x" }), []);
+  assert.deepEqual(issues("createUser", { ...user, customproperty66: "x" }), ["customproperty66"]);
+  assert.deepEqual(issues("createUser", { ...user, CustomProperty3: 7 }), ["CustomProperty3"]);
+
+  const account = { securitysystem: "AD", endpoint: "AD", name: "jdoe" };
+  assert.deepEqual(issues("createAccount", { ...account, customproperty46: "x" }), [
+    "customproperty46",
+  ]);
+});
+
+test("typed write tools reject bad payloads before sending and pass rawPayload as-is", async () => {
+  const requests = mockSaviynt(() => ({ body: { errorCode: "0" } }));
+  const client = await connect(createSaviyntMcpServer({ confirmWrites: false }));
+  const creates = () => requests.filter((request) => request.path === "/ECM/api/v5/createUser");
+
+  const invalid = await client.callTool({
+    name: "saviynt_create_user",
+    arguments: { payload: { username: "jdoe" } },
+  });
+  assert.equal(invalid.isError, true);
+  assert.match(JSON.stringify(invalid.content), /payload.*lastname/s);
+
+  const both = await client.callTool({
+    name: "saviynt_create_user",
+    arguments: { payload: { username: "jdoe", lastname: "Doe" }, rawPayload: { username: "x" } },
+  });
+  assert.match(toolError(both).error, /either 'payload' or 'rawPayload'/);
+  assert.equal(creates().length, 0);
+
+  const raw = await client.callTool({
+    name: "saviynt_create_user",
+    arguments: { rawPayload: { username: "jdoe", customproperty99: 1 } },
+  });
+  assert.equal(raw.isError, undefined, JSON.stringify(raw.content));
+  assert.deepEqual(creates()[0].body, { username: "jdoe", customproperty99: 1 });
+  assert.equal(resultJson<{ endpoint: string }>(raw).endpoint, "/ECM/api/v5/createUser");
+});
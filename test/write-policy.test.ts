@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createSaviyntMcpServer } from "../src/saviynt-mcp-server.js";
+import { parseWritePolicy, WritePolicy } from "../src/write-policy.js";
+import { apiKeyCaller, connect, mockSaviynt, toolError, useServiceAccount } from "./helpers.js";
+
+useServiceAccount({ SAVIYNT_ENABLE_WRITE: "true" });
+
+test("a caller without the write scope is denied by policy", async () => {
+  const requests = mockSaviynt(() => ({ body: { errorCode: "0" } }));
+  const server = createSaviyntMcpServer({ confirmWrites: false, writeScope: "saviynt:write" });
+  const client = await connect(server, apiKeyCaller("alice", ["saviynt:read"]));
+
+  const result = await client.callTool({
+    name: "saviynt_create_update_user_group",
+    arguments: { payload: { usergroupname: "contractors" } },
+  });
+
+  const details = toolError(result).details;
+  assert.equal(details?.code, "policy_denied");
+  assert.equal(details?.requiredScope, "saviynt:write");
+  assert.equal(details?.caller, "alice");
+  assert.equal(requests.length, 0);
+});
+
+const example = WritePolicy.fromFile("examples/write-policy.json");
+
+function allowed(tool: string, method: string, endpoint: string, profileId?: string): boolean {
+  return example.check({ tool, method, endpoint, profileId }).allowed;
+}
+
+test("write rules match tool, method, endpoint and profile patterns", () => {
+  const create = "/ECM/api/v5/createrequest";
+  assert.equal(allowed("saviynt_create_access_request", "POST", create, "prod-eu"), true);
+  assert.equal(allowed("saviynt_create_user", "POST", "/ECM/api/v5/createUser", "prod-eu"), false);
+  assert.equal(allowed("saviynt_create_user", "post", "/ECM/api/v5/createUser", "dev1"), true);
+  assert.equal(allowed("saviynt_create_access_request", "POST", create), false);
+});
+
+test("a matching deny rule wins over any allow", () => {
+  assert.equal(allowed("saviynt_update_user", "DELETE", "/ECM/api/v5/updateUser", "dev1"), false);
+  assert.equal(allowed("saviynt_raw_request", "POST", "/ECM/api/v5/anything", "dev1"), false);
+  // Endpoints match the path only, ignoring case and the query string.
+  const decision = example.check({
+    tool: "saviynt_update_user",
+    method: "POST",
+    endpoint: "ECM/API/v5/DeleteUser?force=true",
+    profileId: "dev1",
+  });
+  assert.equal(decision.allowed, false);
+  assert.match(decision.reason || "", /is denied by the write policy/);
+});
+
+test("the default effect applies when no rule matches", () => {
+  const open = new WritePolicy({ rules: [], default: "allow" });
+  const closed = new WritePolicy({ rules: [] });
+  const request = { tool: "saviynt_update_user", method: "POST", endpoint: "/ECM/api/v5/x" };
+  assert.equal(open.check(request).allowed, true);
+  assert.match(closed.check(request).reason || "", /is not allowed by the write policy/);
+});
+
+test("write policy files with the wrong shape are rejected", () => {
+  assert.throws(() => parseWritePolicy({ rules: {} }), /'rules' array/);
+  assert.throws(() => parseWritePolicy({ rules: [{ effect: "maybe" }] }), /'allow' or 'deny'/);
+  assert.throws(
+    () => parseWritePolicy({ rules: [{ effect: "allow", methods: "POST" }] }),
+    /'rules\[0\].methods' must be an array of strings/
+  );
+  assert.throws(() => parseWritePolicy({ rules: [], default: "open" }), /'default'/);
+});
+
+test("the server refuses writes the policy denies before sending them", async () => {
+  const requests = mockSaviynt(() => ({ body: { errorCode: "0" } }));
+  const writePolicy = new WritePolicy({
+    rules: [{ effect: "allow", tools: ["saviynt_create_update_user_group"] }],
+  });
+  const client = await connect(
+    createSaviyntMcpServer({ confirmWrites: false, enableWrites: false, writePolicy })
+  );
+
+  const allowedWrite = await client.callTool({
+    name: "saviynt_create_update_user_group",
+    arguments: { payload: { usergroupname: "contractors" } },
+  });
+  assert.equal(allowedWrite.isError, undefined, JSON.stringify(allowedWrite.content));
+
+  const denied = await client.callTool({
+    name: "saviynt_delete_user_group",
+    arguments: { payload: { usergroupname: "contractors" } },
+  });
+  const details = toolError(denied).details;
+  assert.equal(details?.code, "write_policy_denied");
+  assert.equal(details?.method, "POST");
+  assert.equal(requests.filter((request) => request.path.endsWith("/deleteUserGroup")).length, 0);
+});